@@ -8,6 +8,10 @@ const nextConfig: NextConfig = {
   eslint: {
     ignoreDuringBuilds: true,
   },
+  // Genkit reads the prompt files at runtime, so ship them with every server route.
+  outputFileTracingIncludes: {
+    '/**': ['./prompts/**/*'],
+  },
   images: {
     remotePatterns: [
       {
@@ -3,3 +3,12 @@ config();
 
 import '@/ai/flows/generate-educational-visual.ts';
 import '@/ai/flows/explain-visual-concept.ts';
+import '@/ai/flows/follow-up-chat.ts';
+import '@/ai/flows/generate-quiz.ts';
+import '@/ai/flows/generate-process-sequence.ts';
+import '@/ai/flows/refine-educational-visual.ts';
+import '@/ai/flows/extract-diagram-labels.ts';
+import '@/ai/flows/generate-mermaid-diagram.ts';
+import '@/ai/flows/generate-function-plot.ts';
+import '@/ai/flows/generate-molecule-structures.ts';
+import '@/ai/flows/critique-educational-visual.ts';
@@ -0,0 +1,12 @@
+/** Reads a non-negative number from the environment, or `fallback` when it is unset. */
+export function numberFromEnv(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') {
+    return fallback;
+  }
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative number, got "${raw}".`);
+  }
+  return value;
+}
@@ -0,0 +1,140 @@
+/**
+ * @fileOverview Compares two evaluation runs, e.g. before and after a prompt change, as a Markdown report.
+ *
+ *   npm run eval:compare -- <baseline.json> <candidate.json> [--out report.md]
+ *
+ * To compare prompt versions, run the evaluation once with `EDUVIS_PROMPT_DIR`
+ * pointing at a copy of the old prompts (e.g. from `git archive`) and once
+ * against prompts/, with the same provider and dataset.
+ */
+
+import {readFile, writeFile} from 'fs/promises';
+import {parseArgs} from 'util';
+import {
+  CaseResult,
+  EvalMetricName,
+  EvalRun,
+  EvalRunSchema,
+  EvalSummary,
+  evalMetrics,
+  promptVersionsOf,
+  summarizeCases,
+} from '@/ai/eval/results';
+
+const metricNames = Object.keys(evalMetrics) as EvalMetricName[];
+
+/** Changes smaller than this are reported as unchanged rather than as a regression. */
+const noiseThreshold = 0.005;
+
+async function readRun(path: string): Promise<EvalRun> {
+  return EvalRunSchema.parse(JSON.parse(await readFile(path, 'utf8')));
+}
+
+function formatChange(name: EvalMetricName, baseline: number | undefined, candidate: number | undefined): string {
+  const {format} = evalMetrics[name];
+  if (baseline === undefined || candidate === undefined) {
+    return `${baseline === undefined ? 'n/a' : format(baseline)} → ${candidate === undefined ? 'n/a' : format(candidate)}`;
+  }
+  const delta = candidate - baseline;
+  const change = Math.abs(delta) < noiseThreshold ? '=' : `${delta > 0 ? '+' : '−'}${format(Math.abs(delta))}`;
+  return `${format(baseline)} → ${format(candidate)} (${change})`;
+}
+
+function summaryRow(label: string, baseline: EvalSummary, candidate: EvalSummary): string {
+  return `| ${label} | ${metricNames.map(name => formatChange(name, baseline[name], candidate[name])).join(' | ')} |`;
+}
+
+function regressionsOf(baseline: CaseResult, candidate: CaseResult): string[] {
+  return metricNames.flatMap(name => {
+    const before = evalMetrics[name].of(baseline);
+    const after = evalMetrics[name].of(candidate);
+    if (before === undefined || after === undefined || before - after < noiseThreshold) {
+      return [];
+    }
+    const step = name.startsWith('visual') ? candidate.visual : candidate.explanation;
+    const missing = name.endsWith('Recall') && step.labelRecall?.missing.length ? `, missing ${step.labelRecall.missing.join(', ')}` : '';
+    return [`${evalMetrics[name].label} ${formatChange(name, before, after)}${missing}`];
+  });
+}
+
+function compareRuns(baseline: {path: string; run: EvalRun}, candidate: {path: string; run: EvalRun}): string {
+  const candidateCases = new Map(candidate.run.cases.map(result => [result.id, result]));
+  const pairs = baseline.run.cases.flatMap(result => {
+    const other = candidateCases.get(result.id);
+    return other ? [{baseline: result, candidate: other}] : [];
+  });
+  const unpaired = baseline.run.cases.length + candidate.run.cases.length - 2 * pairs.length;
+
+  const lines = [
+    '# Evaluation comparison',
+    '',
+    '| | Baseline | Candidate |',
+    '| --- | --- | --- |',
+    `| Run | ${baseline.path} | ${candidate.path} |`,
+    `| Provider | ${baseline.run.provider} | ${candidate.run.provider} |`,
+    `| Prompts | ${promptVersionsOf(baseline.run).join('<br>')} | ${promptVersionsOf(candidate.run).join('<br>')} |`,
+    '',
+    `Compared ${pairs.length} cases present in both runs${unpaired ? `; ${unpaired} cases in only one run were left out` : ''}.`,
+  ];
+  if (baseline.run.provider !== candidate.run.provider) {
+    lines.push('', '**The runs used different model providers, so score changes are not due to the prompts alone.**');
+  }
+
+  lines.push(
+    '',
+    '## Scores',
+    '',
+    `| | ${metricNames.map(name => evalMetrics[name].label).join(' | ')} |`,
+    `| --- | ${metricNames.map(() => '---').join(' | ')} |`,
+    summaryRow(
+      '**All domains**',
+      summarizeCases(pairs.map(pair => pair.baseline)),
+      summarizeCases(pairs.map(pair => pair.candidate))
+    )
+  );
+  const domains = [...new Set(pairs.map(pair => pair.baseline.domain))].sort();
+  for (const domain of domains) {
+    const inDomain = pairs.filter(pair => pair.baseline.domain === domain);
+    lines.push(
+      summaryRow(
+        domain,
+        summarizeCases(inDomain.map(pair => pair.baseline)),
+        summarizeCases(inDomain.map(pair => pair.candidate))
+      )
+    );
+  }
+
+  lines.push('', '## Regressions', '');
+  const regressions = pairs.flatMap(pair => {
+    const found = regressionsOf(pair.baseline, pair.candidate);
+    return found.length ? [`- **${pair.baseline.id}**: ${found.join('; ')}`] : [];
+  });
+  lines.push(...(regressions.length ? regressions : ['None.']));
+  return `${lines.join('\n')}\n`;
+}
+
+async function main() {
+  const {values, positionals} = parseArgs({
+    options: {out: {type: 'string'}},
+    allowPositionals: true,
+  });
+  if (positionals.length !== 2) {
+    throw new Error('Usage: npm run eval:compare -- <baseline.json> <candidate.json> [--out report.md]');
+  }
+  const [baselinePath, candidatePath] = positionals;
+  const report = compareRuns(
+    {path: baselinePath, run: await readRun(baselinePath)},
+    {path: candidatePath, run: await readRun(candidatePath)}
+  );
+  if (values.out) {
+    await writeFile(values.out, report);
+    console.log(`Wrote ${values.out}`);
+  } else {
+    process.stdout.write(report);
+  }
+}
+
+main().catch(e => {
+  console.error(e);
+  process.exitCode = 1;
+});
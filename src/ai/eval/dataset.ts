@@ -0,0 +1,40 @@
+/**
+ * @fileOverview The evaluation dataset: concepts per domain with the labels a good visual of each should carry.
+ *
+ * - loadEvalDataset - Reads and validates a dataset file, evals/dataset.json by default.
+ * - EvalCase - One concept to evaluate.
+ * - ExpectedLabel - A label, or a list of accepted spellings of one label.
+ */
+
+import {readFile} from 'fs/promises';
+import {DomainSchema} from '@/lib/domains';
+import {z} from 'genkit';
+
+const ExpectedLabelSchema = z.union([z.string(), z.array(z.string()).min(1)]);
+export type ExpectedLabel = z.infer<typeof ExpectedLabelSchema>;
+
+const EvalCaseSchema = z.object({
+  id: z.string().describe('A stable identifier, used to pair results across runs.'),
+  domain: DomainSchema,
+  concept: z.string().describe('The prompt sent to the visual flow.'),
+  expectedLabels: z.array(ExpectedLabelSchema).min(1),
+});
+export type EvalCase = z.infer<typeof EvalCaseSchema>;
+
+const EvalDatasetSchema = z.object({
+  cases: z.array(EvalCaseSchema).min(1),
+});
+
+export const defaultDatasetPath = 'evals/dataset.json';
+
+export async function loadEvalDataset(path = defaultDatasetPath): Promise<EvalCase[]> {
+  const {cases} = EvalDatasetSchema.parse(JSON.parse(await readFile(path, 'utf8')));
+  const ids = new Set<string>();
+  for (const {id} of cases) {
+    if (ids.has(id)) {
+      throw new Error(`Duplicate case id "${id}" in ${path}.`);
+    }
+    ids.add(id);
+  }
+  return cases;
+}
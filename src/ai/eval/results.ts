@@ -0,0 +1,92 @@
+/**
+ * @fileOverview The results of an evaluation run and the metrics computed from them.
+ *
+ * - EvalRunSchema - A run as written by run.ts and read by compare.ts.
+ * - evalMetrics - The metrics reported for a run, each averaged over the cases it applies to.
+ * - summarizeCases - Averages every metric over a set of cases.
+ * - formatPromptVersion - Formats a prompt version as "name.variant vN".
+ * - promptVersionsOf - The distinct prompt versions a run used.
+ * - EvalRun, CaseResult, StepResult - The types of a run and its parts.
+ */
+
+import {PromptVersion, PromptVersionSchema} from '@/lib/prompt-version';
+import {z} from 'genkit';
+
+const StepResultSchema = z.object({
+  status: z.string().describe("The flow result's status, or 'skipped' when an earlier step failed."),
+  message: z.string().optional(),
+  promptVersion: PromptVersionSchema.optional(),
+  labelRecall: z
+    .object({
+      recall: z.number(),
+      matched: z.array(z.string()),
+      missing: z.array(z.string()),
+    })
+    .optional(),
+  judge: z.object({score: z.number(), rationale: z.string()}).optional(),
+  /** Scoring steps that failed, e.g. a judge call; the step's other scores still count. */
+  scoringErrors: z.array(z.string()).optional(),
+  latencyMs: z.number(),
+});
+export type StepResult = z.infer<typeof StepResultSchema>;
+
+const CaseResultSchema = z.object({
+  id: z.string(),
+  domain: z.string(),
+  concept: z.string(),
+  visual: StepResultSchema,
+  explanation: StepResultSchema,
+});
+export type CaseResult = z.infer<typeof CaseResultSchema>;
+
+export const EvalRunSchema = z.object({
+  startedAt: z.string(),
+  finishedAt: z.string(),
+  provider: z.string(),
+  promptDir: z.string(),
+  dataset: z.string(),
+  cases: z.array(CaseResultSchema),
+});
+export type EvalRun = z.infer<typeof EvalRunSchema>;
+
+interface EvalMetric {
+  label: string;
+  /** The case's value, or undefined when the metric does not apply, e.g. to a failed step. */
+  of: (result: CaseResult) => number | undefined;
+  format: (value: number) => string;
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+const score = (value: number) => value.toFixed(2);
+const succeeded = (step: StepResult) => (step.status === 'skipped' ? undefined : step.status === 'success' ? 1 : 0);
+
+export const evalMetrics = {
+  visualSuccess: {label: 'Visual success rate', of: result => succeeded(result.visual), format: percent},
+  visualRecall: {label: 'Visual label recall', of: result => result.visual.labelRecall?.recall, format: percent},
+  visualJudge: {label: 'Visual judge score (1-5)', of: result => result.visual.judge?.score, format: score},
+  explanationSuccess: {label: 'Explanation success rate', of: result => succeeded(result.explanation), format: percent},
+  explanationRecall: {label: 'Explanation label recall', of: result => result.explanation.labelRecall?.recall, format: percent},
+  explanationJudge: {label: 'Explanation judge score (1-5)', of: result => result.explanation.judge?.score, format: score},
+} satisfies Record<string, EvalMetric>;
+
+export type EvalMetricName = keyof typeof evalMetrics;
+
+export type EvalSummary = Record<EvalMetricName, number | undefined>;
+
+export function summarizeCases(cases: CaseResult[]): EvalSummary {
+  const summary = {} as EvalSummary;
+  for (const [name, metric] of Object.entries(evalMetrics) as [EvalMetricName, EvalMetric][]) {
+    const values = cases.map(metric.of).filter((value): value is number => value !== undefined);
+    summary[name] = values.length ? values.reduce((total, value) => total + value, 0) / values.length : undefined;
+  }
+  return summary;
+}
+
+export function formatPromptVersion({name, variant, version}: PromptVersion): string {
+  return `${variant ? `${name}.${variant}` : name} v${version}`;
+}
+
+export function promptVersionsOf(run: EvalRun): string[] {
+  const versions = run.cases.flatMap(result => [result.visual.promptVersion, result.explanation.promptVersion]);
+  return [...new Set(versions.filter(version => version !== undefined).map(formatPromptVersion))].sort();
+}
@@ -0,0 +1,135 @@
+/**
+ * @fileOverview Runs the evaluation dataset through the visual and explanation flows and scores the results.
+ *
+ *   npm run eval -- [--dataset evals/dataset.json] [--out evals/results/<name>.json] [--domain Biology] [--case biology-neuron]
+ *
+ * For each case the visual flow draws the concept, its labels are read back
+ * with extractDiagramLabels, and the explanation flow explains the drawn
+ * visual. Each step is scored by label recall and by an LLM judge. The models
+ * come from `EDUVIS_MODEL_PROVIDER` and the prompts from `EDUVIS_PROMPT_DIR`,
+ * so a run against a copy of older prompts can be compared with compare.ts.
+ * Caches are bypassed and rate limits do not apply; usage is recorded as usual.
+ */
+
+import {config} from 'dotenv';
+config();
+
+import {mkdir, writeFile} from 'fs/promises';
+import {dirname} from 'path';
+import {parseArgs} from 'util';
+import {promptDir, providerName} from '@/ai/genkit';
+import {EvalCase, defaultDatasetPath, loadEvalDataset} from '@/ai/eval/dataset';
+import {CaseResult, EvalRun, StepResult, evalMetrics, promptVersionsOf, summarizeCases} from '@/ai/eval/results';
+import {judgeExplanation, judgeVisual, labelRecall} from '@/ai/eval/scoring';
+import {explainVisualConcept} from '@/ai/flows/explain-visual-concept';
+import {extractDiagramLabels} from '@/ai/flows/extract-diagram-labels';
+import {generateEducationalVisual} from '@/ai/flows/generate-educational-visual';
+
+async function scoreStep(step: StepResult, name: string, score: () => Promise<void>) {
+  try {
+    await score();
+  } catch (e: any) {
+    (step.scoringErrors ??= []).push(`${name}: ${e.message ?? e}`);
+  }
+}
+
+async function runCase({id, domain, concept, expectedLabels}: EvalCase): Promise<CaseResult> {
+  let startedAt = Date.now();
+  const generated = await generateEducationalVisual({prompt: concept, domain, regenerate: true});
+  if (generated.status !== 'success') {
+    return {
+      id,
+      domain,
+      concept,
+      visual: {status: generated.status, message: generated.message, latencyMs: Date.now() - startedAt},
+      explanation: {status: 'skipped', latencyMs: 0},
+    };
+  }
+
+  const image = generated.candidates[0].image;
+  const visual: StepResult = {status: 'success', promptVersion: generated.promptVersion, latencyMs: Date.now() - startedAt};
+  await scoreStep(visual, 'labels', async () => {
+    const extracted = await extractDiagramLabels({photoDataUri: image, domain});
+    if (extracted.status !== 'success') {
+      throw new Error(extracted.message);
+    }
+    visual.labelRecall = labelRecall(expectedLabels, extracted.labels.map(label => label.text));
+  });
+  await scoreStep(visual, 'judge', async () => {
+    visual.judge = await judgeVisual({image, concept, domain});
+  });
+
+  startedAt = Date.now();
+  const explained = await explainVisualConcept({photoDataUri: image, domain, regenerate: true});
+  if (explained.status !== 'success') {
+    return {
+      id,
+      domain,
+      concept,
+      visual,
+      explanation: {status: explained.status, message: explained.message, latencyMs: Date.now() - startedAt},
+    };
+  }
+  const explanation: StepResult = {status: 'success', promptVersion: explained.promptVersion, latencyMs: Date.now() - startedAt};
+  explanation.labelRecall = labelRecall(expectedLabels, [explained.explanation]);
+  await scoreStep(explanation, 'judge', async () => {
+    explanation.judge = await judgeExplanation({image, concept, domain, explanation: explained.explanation});
+  });
+  return {id, domain, concept, visual, explanation};
+}
+
+async function main() {
+  const {values} = parseArgs({
+    options: {
+      dataset: {type: 'string', default: defaultDatasetPath},
+      out: {type: 'string'},
+      domain: {type: 'string', multiple: true},
+      case: {type: 'string', multiple: true},
+    },
+  });
+  const cases = (await loadEvalDataset(values.dataset)).filter(
+    ({id, domain}) => (!values.domain || values.domain.includes(domain)) && (!values.case || values.case.includes(id))
+  );
+  if (!cases.length) {
+    throw new Error('No cases match the given --domain and --case filters.');
+  }
+
+  const startedAt = new Date().toISOString();
+  console.log(`Evaluating ${cases.length} cases with the ${providerName} provider and prompts from ${promptDir}.`);
+  const results: CaseResult[] = [];
+  // One case at a time, so a run stays within the provider's rate limits.
+  for (const evalCase of cases) {
+    const result = await runCase(evalCase);
+    results.push(result);
+    const errors = [...(result.visual.scoringErrors ?? []), ...(result.explanation.scoringErrors ?? [])];
+    console.log(
+      `${result.id}: visual ${result.visual.status}, explanation ${result.explanation.status}` +
+        (errors.length ? ` (scoring failed: ${errors.join('; ')})` : '')
+    );
+  }
+
+  const run: EvalRun = {
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    provider: providerName,
+    promptDir,
+    dataset: values.dataset,
+    cases: results,
+  };
+  const out = values.out ?? `evals/results/${startedAt.replace(/[:.]/g, '-')}.json`;
+  await mkdir(dirname(out), {recursive: true});
+  await writeFile(out, `${JSON.stringify(run, null, 2)}\n`);
+
+  const summary = summarizeCases(results);
+  console.log(`\nPrompts: ${promptVersionsOf(run).join(', ')}`);
+  for (const [name, metric] of Object.entries(evalMetrics)) {
+    const value = summary[name as keyof typeof evalMetrics];
+    console.log(`${metric.label}: ${value === undefined ? 'n/a' : metric.format(value)}`);
+  }
+  console.log(`\nWrote ${out}`);
+}
+
+main().catch(e => {
+  console.error(e);
+  process.exitCode = 1;
+});
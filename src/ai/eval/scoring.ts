@@ -0,0 +1,114 @@
+/**
+ * @fileOverview Scores flow outputs against an evaluation case.
+ *
+ * - labelRecall - The share of a case's expected labels that appear in some text.
+ * - judgeVisual - Asks the text model to grade a generated visual.
+ * - judgeExplanation - Asks the text model to grade an explanation of a visual.
+ * - LabelRecall - Recall with the labels that were matched and missed.
+ * - JudgeVerdict - A 1 to 5 grade with the judge's reasoning.
+ *
+ * Labels match case-insensitively on whole words, ignoring punctuation, so
+ * "Carbon dioxide (CO₂)" matches both "carbon dioxide" and "CO2".
+ */
+
+import {ai} from '@/ai/genkit';
+import {safetyConfig} from '@/ai/safety';
+import type {ExpectedLabel} from '@/ai/eval/dataset';
+import {Domain, getDomain} from '@/lib/domains';
+import {z} from 'genkit';
+
+export interface LabelRecall {
+  recall: number;
+  matched: string[];
+  missing: string[];
+}
+
+function normalizeForMatching(text: string): string {
+  return ` ${text.normalize('NFKC').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim()} `;
+}
+
+/** Scores how many of `expected` appear in any of `texts`; a label with alternatives counts once. */
+export function labelRecall(expected: ExpectedLabel[], texts: string[]): LabelRecall {
+  const haystacks = texts.map(normalizeForMatching);
+  const matched: string[] = [];
+  const missing: string[] = [];
+  for (const label of expected) {
+    const spellings = typeof label === 'string' ? [label] : label;
+    const found = spellings.some(spelling => {
+      const needle = normalizeForMatching(spelling);
+      return needle.trim() !== '' && haystacks.some(haystack => haystack.includes(needle));
+    });
+    (found ? matched : missing).push(spellings[0]);
+  }
+  return {recall: matched.length / expected.length, matched, missing};
+}
+
+const JudgeVerdictSchema = z.object({
+  score: z.number().int().min(1).max(5).describe('1 is unusable, 3 is acceptable with flaws, 5 is ready for a classroom.'),
+  rationale: z.string().describe('One or two sentences justifying the score.'),
+});
+export type JudgeVerdict = z.infer<typeof JudgeVerdictSchema>;
+
+const visualJudgePrompt = ai.definePrompt({
+  name: 'evalVisualJudgePrompt',
+  input: {
+    schema: z.object({
+      image: z.string(),
+      concept: z.string(),
+      domain: z.string(),
+      domainGuidance: z.string(),
+    }),
+  },
+  output: {schema: JudgeVerdictSchema},
+  prompt: `You are grading an educational visual for a benchmark. Be strict and consistent.
+Domain: {{{domain}}}
+Guidance for this domain: {{{domainGuidance}}}
+The visual is meant to show: {{{concept}}}
+
+Grade it from 1 to 5 on scientific accuracy, completeness of the key parts, and how legible and correctly placed its labels are.
+An inaccurate visual scores at most 2, however well it is drawn.
+
+Image: {{media url=image}}`,
+  config: safetyConfig,
+});
+
+const explanationJudgePrompt = ai.definePrompt({
+  name: 'evalExplanationJudgePrompt',
+  input: {
+    schema: z.object({
+      image: z.string(),
+      concept: z.string(),
+      domain: z.string(),
+      explanation: z.string(),
+    }),
+  },
+  output: {schema: JudgeVerdictSchema},
+  prompt: `You are grading an explanation of an educational visual for a benchmark. Be strict and consistent.
+Domain: {{{domain}}}
+The visual is meant to show: {{{concept}}}
+
+Grade the explanation from 1 to 5 on scientific accuracy, whether it explains what the visual actually shows, and clarity for a learner.
+An explanation with a factual error scores at most 2.
+
+Explanation:
+{{{explanation}}}
+
+Image: {{media url=image}}`,
+  config: safetyConfig,
+});
+
+async function verdictOf(response: Promise<{output: JudgeVerdict | null}>): Promise<JudgeVerdict> {
+  const {output} = await response;
+  if (!output) {
+    throw new Error('The judge returned no verdict.');
+  }
+  return output;
+}
+
+export function judgeVisual(input: {image: string; concept: string; domain: Domain}): Promise<JudgeVerdict> {
+  return verdictOf(visualJudgePrompt({...input, domainGuidance: getDomain(input.domain).promptGuidance}));
+}
+
+export function judgeExplanation(input: {image: string; concept: string; domain: Domain; explanation: string}): Promise<JudgeVerdict> {
+  return verdictOf(explanationJudgePrompt(input));
+}
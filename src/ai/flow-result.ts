@@ -0,0 +1,120 @@
+/**
+ * @fileOverview Typed results shared by the AI flows.
+ *
+ * - flowResultSchema - Wraps a flow's success payload into a discriminated result schema.
+ * - flowFailure - Builds a failure result with a default user-facing message.
+ * - toFlowFailure - Maps an error thrown by a model call to a failure result.
+ * - runFlow - Runs a flow for a server action, returning invalid input as a failure result.
+ * - FlowFailure - The failure branch of every flow result.
+ * - FlowFailureStatus - The reasons a flow can fail.
+ */
+
+import {currentRateLimitContext} from '@/ai/rate-limit';
+import {safetyProfile} from '@/ai/safety';
+import type {ActionContext} from 'genkit';
+import {GenerationBlockedError, GenkitError, z} from 'genkit';
+
+export const FlowFailureStatusSchema = z.enum([
+  'refused',
+  'safety-blocked',
+  'quota',
+  'model-unavailable',
+  'invalid-input',
+]);
+export type FlowFailureStatus = z.infer<typeof FlowFailureStatusSchema>;
+
+export const FlowFailureSchema = z.object({
+  status: FlowFailureStatusSchema,
+  message: z.string().describe('A user-facing explanation of why the request failed.'),
+  retryable: z.boolean().describe('Whether sending the same request again may succeed.'),
+  retryAfterSeconds: z.number().int().optional().describe('For rate-limited requests, how long to wait before trying again.'),
+});
+export type FlowFailure = z.infer<typeof FlowFailureSchema>;
+
+/**
+ * Builds a flow output schema that is either the given success payload
+ * (tagged with `status: 'success'`) or a {@link FlowFailure}.
+ */
+export function flowResultSchema<T extends z.ZodRawShape>(success: z.ZodObject<T>) {
+  return z.discriminatedUnion('status', [
+    success.extend({status: z.literal('success')}),
+    FlowFailureSchema,
+  ]);
+}
+
+const defaultMessages: Record<FlowFailureStatus, string> = {
+  'refused': "I don't do that. I only create educational and scientific visuals.",
+  'safety-blocked': `This request was blocked by the ${safetyProfile.label} safety policy.`,
+  'quota': 'The AI service is receiving too many requests right now.',
+  'model-unavailable': 'The AI model is temporarily unavailable.',
+  'invalid-input': 'The request could not be processed. Please check your input.',
+};
+
+const retryableStatuses: FlowFailureStatus[] = ['quota', 'model-unavailable'];
+
+export function flowFailure(status: FlowFailureStatus, message?: string): FlowFailure {
+  return {
+    status,
+    message: message || defaultMessages[status],
+    retryable: retryableStatuses.includes(status),
+  };
+}
+
+/**
+ * Classifies an error thrown while calling a model. Genkit reports its own
+ * errors with a gRPC-style status name, while the Google AI SDK throws fetch
+ * errors carrying the HTTP status code.
+ */
+export function toFlowFailure(e: unknown): FlowFailure {
+  if (e instanceof GenerationBlockedError) {
+    return flowFailure('safety-blocked');
+  }
+  if (e instanceof GenkitError) {
+    switch (e.status) {
+      case 'RESOURCE_EXHAUSTED':
+        return flowFailure('quota');
+      case 'INVALID_ARGUMENT':
+      case 'FAILED_PRECONDITION':
+        return flowFailure('invalid-input');
+      case 'UNAVAILABLE':
+      case 'DEADLINE_EXCEEDED':
+        return flowFailure('model-unavailable');
+    }
+  }
+
+  const httpStatus = (e as {status?: unknown} | null)?.status;
+  if (httpStatus === 429) {
+    return flowFailure('quota');
+  }
+  if (httpStatus === 400) {
+    return flowFailure('invalid-input');
+  }
+  if (typeof httpStatus === 'number' && httpStatus >= 500) {
+    return flowFailure('model-unavailable');
+  }
+
+  const message = e instanceof Error ? e.message : String(e);
+  if (/SAFETY|blocked/i.test(message)) {
+    return flowFailure('safety-blocked');
+  }
+  if (/quota|rate limit|429/i.test(message)) {
+    return flowFailure('quota');
+  }
+  return flowFailure('model-unavailable');
+}
+
+/**
+ * Runs `flow` with the rate limit context of the request being handled. The
+ * flows turn model errors into failure results themselves, so what is caught
+ * here is input that failed the flow's schema.
+ */
+export async function runFlow<I, O>(
+  flow: (input: I, options: {context: ActionContext}) => Promise<O>,
+  input: I
+): Promise<O | FlowFailure> {
+  try {
+    return await flow(input, {context: await currentRateLimitContext()});
+  } catch (e: any) {
+    return toFlowFailure(e);
+  }
+}
@@ -0,0 +1,93 @@
+'use server';
+
+/**
+ * @fileOverview A flow for checking a generated visual's labels and structures against its concept.
+ *
+ * - critiqueEducationalVisual - A function that reviews a visual and lists its inaccuracies.
+ * - CritiqueEducationalVisualInput - The input type for the critiqueEducationalVisual function.
+ * - CritiqueEducationalVisualOutput - The return type for the critiqueEducationalVisual function.
+ */
+
+import {ai, models} from '@/ai/genkit';
+import {flowFailure, flowResultSchema, runFlow, toFlowFailure} from '@/ai/flow-result';
+import {safetyConfig} from '@/ai/safety';
+import {meterUsage} from '@/ai/usage';
+import {DomainSchema, getDomain} from '@/lib/domains';
+import {LanguageSchema, defaultLanguage, promptLanguageName} from '@/lib/languages';
+import {CritiqueReviewSchema} from '@/lib/visual-critique';
+import {z} from 'genkit';
+
+const CritiqueEducationalVisualInputSchema = z.object({
+  image: z
+    .string()
+    .regex(/^data:image\/[\w.+-]+;base64,/, 'Expected a base64-encoded image data URI.')
+    .describe('The visual to review, as a data URI.'),
+  prompt: z.string().describe('The concept the visual should show.'),
+  domain: DomainSchema,
+  language: LanguageSchema.optional().describe('The language the labels should be in. Defaults to English.'),
+});
+export type CritiqueEducationalVisualInput = z.infer<typeof CritiqueEducationalVisualInputSchema>;
+
+const CritiqueEducationalVisualOutputSchema = flowResultSchema(CritiqueReviewSchema);
+export type CritiqueEducationalVisualOutput = z.infer<typeof CritiqueEducationalVisualOutputSchema>;
+
+export async function critiqueEducationalVisual(input: CritiqueEducationalVisualInput): Promise<CritiqueEducationalVisualOutput> {
+  return runFlow(critiqueEducationalVisualFlow, input);
+}
+
+const prompt = ai.definePrompt({
+  name: 'critiqueEducationalVisualPrompt',
+  input: {
+    schema: z.object({
+      image: z.string(),
+      prompt: z.string(),
+      domain: z.string(),
+      domainGuidance: z.string(),
+      languageName: z.string(),
+    }),
+  },
+  output: {schema: CritiqueReviewSchema},
+  prompt: `You are a meticulous {{{domain}}} subject expert reviewing an educational visual before it is shown to learners.
+Guidance for this domain: {{{domainGuidance}}}
+
+The visual is meant to show: {{{prompt}}}
+Its labels should be written in {{{languageName}}}.
+
+Check every label and structure against established knowledge of this concept:
+- labels that point at the wrong part, are misspelled, are garbled, or are in the wrong language;
+- structures, steps, arrows or proportions that are wrong or missing;
+- anything else a teacher would consider misleading.
+List each issue once. Do not report matters of style. If the visual is accurate, return no issues.
+Finally, rate how confident you are that the visual is accurate, from 0 (certainly wrong) to 1 (certainly correct).
+
+Image: {{media url=image}}`,
+  config: safetyConfig,
+  use: [meterUsage(models.text)],
+});
+
+const critiqueEducationalVisualFlow = ai.defineFlow(
+  {
+    name: 'critiqueEducationalVisualFlow',
+    inputSchema: CritiqueEducationalVisualInputSchema,
+    outputSchema: CritiqueEducationalVisualOutputSchema,
+  },
+  async ({language = defaultLanguage, ...input}) => {
+    try {
+      const {output, finishReason} = await prompt({
+        ...input,
+        domainGuidance: getDomain(input.domain).promptGuidance,
+        languageName: promptLanguageName(language),
+      });
+      if (finishReason === 'blocked') {
+        return flowFailure('safety-blocked');
+      }
+      if (!output) {
+        return flowFailure('refused', 'Sorry, I was unable to review this visual.');
+      }
+      return {status: 'success' as const, ...output};
+    } catch (e: any) {
+      console.error('Error critiquing visual:', e);
+      return toFlowFailure(e);
+    }
+  }
+);
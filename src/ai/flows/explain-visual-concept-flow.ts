@@ -0,0 +1,142 @@
+/**
+ * @fileOverview The flow behind explainVisualConcept. It lives outside the server
+ * action module, which may only export async functions, so that the API route
+ * can serve it as a stream.
+ *
+ * - explainVisualConceptFlow - The streaming flow, served to the client by /api/explain-visual-concept.
+ * - ExplainVisualConceptInput - The input type for the explainVisualConcept function.
+ * - ExplainVisualConceptOutput - The return type for the explainVisualConcept function.
+ */
+
+import {ai, modelChains} from '@/ai/genkit';
+import {flowFailure, flowResultSchema, toFlowFailure} from '@/ai/flow-result';
+import {withModelFallback} from '@/ai/model-fallback';
+import {loadDomainPrompt} from '@/ai/prompt-files';
+import {takeTokens} from '@/ai/rate-limit';
+import {gateRequest} from '@/ai/request-classifier';
+import {meterUsage, withUsageTracking} from '@/ai/usage';
+import {createResultCache, hashContent, resultCacheKey} from '@/ai/result-cache';
+import {safetyConfig} from '@/ai/safety';
+import {AudienceSchema, defaultAudience, getAudience} from '@/lib/audiences';
+import {DomainSchema, getDomain} from '@/lib/domains';
+import {LanguageSchema, defaultLanguage, promptLanguageName} from '@/lib/languages';
+import {PromptVersionSchema} from '@/lib/prompt-version';
+import {z} from 'genkit';
+
+const ExplainVisualConceptInputSchema = z.object({
+  photoDataUri: z
+    .string()
+    .regex(/^data:image\/[\w.+-]+;base64,/, 'Expected a base64-encoded image data URI.')
+    .describe(
+      "A photo of a visual, as a data URI that must include a MIME type and use Base64 encoding. Expected format: 'data:<mimetype>;base64,<encoded_data>'."
+    ),
+  domain: DomainSchema,
+  audience: AudienceSchema.optional().describe('Who the explanation is for. Defaults to high school.'),
+  language: LanguageSchema.optional().describe('The language to explain in. Defaults to English.'),
+  regenerate: z
+    .boolean()
+    .optional()
+    .describe('Whether to skip the result cache and write a new explanation. Defaults to false.'),
+});
+export type ExplainVisualConceptInput = z.infer<typeof ExplainVisualConceptInputSchema>;
+
+const ExplainVisualConceptOutputSchema = flowResultSchema(z.object({
+  explanation: z.string().describe('The explanation of the visual concept.'),
+  promptVersion: PromptVersionSchema.describe('The prompt file that wrote the explanation.'),
+  model: z.string().describe('The model that wrote the explanation.'),
+  cached: z.boolean().describe('Whether the explanation was served from the result cache.'),
+}));
+export type ExplainVisualConceptOutput = z.infer<typeof ExplainVisualConceptOutputSchema>;
+
+type Explanation = Omit<Extract<ExplainVisualConceptOutput, {status: 'success'}>, 'cached'>;
+
+/** Explanations by image hash, options and prompt version. `regenerate` skips the lookup and replaces the entry. */
+const explanationCache = createResultCache<Explanation>('explainVisualConcept');
+
+const PromptInputSchema = ExplainVisualConceptInputSchema.omit({regenerate: true}).extend({
+  domainGuidance: z.string(),
+  audienceGuidance: z.string(),
+  languageName: z.string(),
+});
+
+ai.defineSchema('ExplainVisualConceptPromptInput', PromptInputSchema);
+
+export const explainVisualConceptFlow = ai.defineFlow(
+  {
+    name: 'explainVisualConceptFlow',
+    inputSchema: ExplainVisualConceptInputSchema,
+    outputSchema: ExplainVisualConceptOutputSchema,
+    streamSchema: z.string().describe('The next piece of the explanation text.'),
+  },
+  withUsageTracking('explainVisualConcept', async ({audience = defaultAudience, language = defaultLanguage, regenerate = false, ...input}, {sendChunk, context}) => {
+    try {
+      // The explanation is written by the domain's variant of the prompt file, if it has one.
+      const {prompt, promptVersion} = await loadDomainPrompt<typeof PromptInputSchema>('explainVisualConceptPrompt', input.domain);
+      const cacheKey = resultCacheKey({
+        image: hashContent(input.photoDataUri),
+        domain: input.domain,
+        audience,
+        language,
+        promptVersion,
+      });
+      if (regenerate) {
+        explanationCache.bypass();
+      } else {
+        const cached = explanationCache.get(cacheKey);
+        if (cached) {
+          sendChunk(cached.explanation);
+          return {...cached, cached: true};
+        }
+      }
+
+      const rateLimited = takeTokens(context, 'explanation');
+      if (rateLimited) {
+        return rateLimited;
+      }
+
+      const refusal = await gateRequest({photoDataUri: input.photoDataUri, domain: input.domain});
+      if (refusal) {
+        return refusal;
+      }
+
+      let streamed = false;
+      const {result: {text, finishReason}, model} = await withModelFallback(
+        modelChains.text,
+        async model => {
+          const {stream, response} = prompt.stream(
+            {
+              ...input,
+              audience,
+              language,
+              domainGuidance: getDomain(input.domain).promptGuidance,
+              audienceGuidance: getAudience(audience).promptGuidance,
+              languageName: promptLanguageName(language),
+            },
+            {model, config: safetyConfig, use: [meterUsage(model)]}
+          );
+          for await (const chunk of stream) {
+            if (chunk.text) {
+              streamed = true;
+              sendChunk(chunk.text);
+            }
+          }
+          return response;
+        },
+        // The client has already shown streamed text, so a partial explanation is not retried.
+        {hasOutput: () => streamed}
+      );
+      if (finishReason === 'blocked') {
+        return flowFailure('safety-blocked');
+      }
+      if (!text.trim()) {
+        return flowFailure('refused', 'Sorry, I was unable to explain that image.');
+      }
+      const result = {status: 'success' as const, explanation: text, promptVersion, model};
+      explanationCache.set(cacheKey, result);
+      return {...result, cached: false};
+    } catch (e: any) {
+      console.error('Error generating explanation:', e);
+      return toFlowFailure(e);
+    }
+  })
+);
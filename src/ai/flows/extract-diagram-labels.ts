@@ -0,0 +1,118 @@
+'use server';
+
+/**
+ * @fileOverview A flow for locating the labeled parts of a diagram so they can be shown as interactive hotspots.
+ *
+ * - extractDiagramLabels - A function that returns the labels of a diagram with their positions and definitions.
+ * - ExtractDiagramLabelsInput - The input type for the extractDiagramLabels function.
+ * - ExtractDiagramLabelsOutput - The return type for the extractDiagramLabels function.
+ * - DiagramLabel - A single label with its normalized bounding box.
+ */
+
+import {ai, models} from '@/ai/genkit';
+import {flowFailure, flowResultSchema, runFlow, toFlowFailure} from '@/ai/flow-result';
+import {takeTokens} from '@/ai/rate-limit';
+import {safetyConfig} from '@/ai/safety';
+import {meterUsage, withUsageTracking} from '@/ai/usage';
+import {DomainSchema, getDomain} from '@/lib/domains';
+import {z} from 'genkit';
+
+const ExtractDiagramLabelsInputSchema = z.object({
+  photoDataUri: z
+    .string()
+    .regex(/^data:image\/[\w.+-]+;base64,/, 'Expected a base64-encoded image data URI.')
+    .describe("The diagram, as a data URI. Expected format: 'data:<mimetype>;base64,<encoded_data>'."),
+  domain: DomainSchema,
+});
+export type ExtractDiagramLabelsInput = z.infer<typeof ExtractDiagramLabelsInputSchema>;
+
+const BoundingBoxSchema = z.object({
+  x: z.number().describe('Left edge, as a fraction of the image width (0 to 1).'),
+  y: z.number().describe('Top edge, as a fraction of the image height (0 to 1).'),
+  width: z.number().describe('Width, as a fraction of the image width (0 to 1).'),
+  height: z.number().describe('Height, as a fraction of the image height (0 to 1).'),
+});
+
+const DiagramLabelSchema = z.object({
+  text: z.string().describe('The label as written in the image, or the name of the unlabeled structure.'),
+  definition: z.string().describe('A one-sentence definition of the labeled part for a learner.'),
+  box: BoundingBoxSchema.describe('The region of the part the label refers to, not of the label text.'),
+});
+export type DiagramLabel = z.infer<typeof DiagramLabelSchema>;
+
+const ExtractDiagramLabelsOutputSchema = flowResultSchema(z.object({
+  labels: z.array(DiagramLabelSchema),
+}));
+export type ExtractDiagramLabelsOutput = z.infer<typeof ExtractDiagramLabelsOutputSchema>;
+
+export async function extractDiagramLabels(input: ExtractDiagramLabelsInput): Promise<ExtractDiagramLabelsOutput> {
+  return runFlow(extractDiagramLabelsFlow, input);
+}
+
+const prompt = ai.definePrompt({
+  name: 'extractDiagramLabelsPrompt',
+  input: {
+    schema: ExtractDiagramLabelsInputSchema.extend({
+      domainGuidance: z.string(),
+    }),
+  },
+  output: {schema: z.object({labels: z.array(DiagramLabelSchema)})},
+  prompt: `You are an expert {{{domain}}} educator analyzing a diagram so that learners can explore it interactively.
+Guidance for this domain: {{{domainGuidance}}}
+
+List every labeled part of the diagram. If the diagram has no text labels, list its most important structures instead.
+For each part give its label, a one-sentence definition, and a tight bounding box around the part itself, with coordinates as fractions of the image size where (0, 0) is the top-left corner.
+
+Image: {{media url=photoDataUri}}`,
+  config: safetyConfig,
+  use: [meterUsage(models.text)],
+});
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+/** Clamps a box to the image and drops boxes that are too small to hover. */
+function normalizeLabel(label: DiagramLabel): DiagramLabel | null {
+  const x = clamp(label.box.x);
+  const y = clamp(label.box.y);
+  const width = clamp(label.box.x + label.box.width) - x;
+  const height = clamp(label.box.y + label.box.height) - y;
+  if (!label.text.trim() || width < 0.01 || height < 0.01) {
+    return null;
+  }
+  return {...label, box: {x, y, width, height}};
+}
+
+const extractDiagramLabelsFlow = ai.defineFlow(
+  {
+    name: 'extractDiagramLabelsFlow',
+    inputSchema: ExtractDiagramLabelsInputSchema,
+    outputSchema: ExtractDiagramLabelsOutputSchema,
+  },
+  withUsageTracking('extractDiagramLabels', async (input, {context}) => {
+    const rateLimited = takeTokens(context, 'explanation');
+    if (rateLimited) {
+      return rateLimited;
+    }
+
+    try {
+      const {output, finishReason} = await prompt({
+        ...input,
+        domainGuidance: getDomain(input.domain).promptGuidance,
+      });
+      if (finishReason === 'blocked') {
+        return flowFailure('safety-blocked');
+      }
+
+      const labels = (output?.labels ?? [])
+        .map(normalizeLabel)
+        .filter((label): label is DiagramLabel => label !== null);
+      if (labels.length === 0) {
+        return flowFailure('refused', 'Sorry, I could not find any labeled parts in this image.');
+      }
+      return {status: 'success' as const, labels};
+    } catch (e: any) {
+      console.error('Error extracting diagram labels:', e);
+      return toFlowFailure(e);
+    }
+  })
+);
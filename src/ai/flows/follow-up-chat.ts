@@ -0,0 +1,118 @@
+'use server';
+
+/**
+ * @fileOverview A flow for answering follow-up questions about a generated or explained visual.
+ *
+ * - followUpChat - A function that answers the latest message in a thread about a visual.
+ * - FollowUpChatInput - The input type for the followUpChat function.
+ * - FollowUpChatOutput - The return type for the followUpChat function.
+ * - ChatMessage - A single message in a follow-up thread.
+ */
+
+import {ai, models} from '@/ai/genkit';
+import {flowFailure, flowResultSchema, runFlow, toFlowFailure} from '@/ai/flow-result';
+import {takeTokens} from '@/ai/rate-limit';
+import {safetyConfig} from '@/ai/safety';
+import {meterUsage, withUsageTracking} from '@/ai/usage';
+import {DomainSchema, getDomain} from '@/lib/domains';
+import {z} from 'genkit';
+
+const ChatMessageSchema = z.object({
+  role: z.enum(['user', 'model']),
+  text: z.string(),
+});
+export type ChatMessage = z.infer<typeof ChatMessageSchema>;
+
+const FollowUpChatInputSchema = z.object({
+  photoDataUri: z
+    .string()
+    .regex(/^data:image\/(?!svg)[\w.+-]+;base64,/, 'Expected a base64-encoded raster image data URI.')
+    .optional()
+    .describe("The visual being discussed, as a data URI. Expected format: 'data:<mimetype>;base64,<encoded_data>'. Omitted for diagrams and SVG visuals, which are described by their source in the context."),
+  domain: DomainSchema,
+  context: z.string().describe('The description or explanation previously shown for the visual.'),
+  messages: z
+    .array(ChatMessageSchema)
+    .min(1)
+    .describe('The thread so far, oldest first. The last message is the question to answer.'),
+});
+export type FollowUpChatInput = z.infer<typeof FollowUpChatInputSchema>;
+
+const FollowUpChatOutputSchema = flowResultSchema(z.object({
+  reply: z.string().describe("The model's answer to the latest message."),
+}));
+export type FollowUpChatOutput = z.infer<typeof FollowUpChatOutputSchema>;
+
+export async function followUpChat(input: FollowUpChatInput): Promise<FollowUpChatOutput> {
+  return runFlow(followUpChatFlow, input);
+}
+
+const prompt = ai.definePrompt({
+  name: 'followUpChatPrompt',
+  input: {
+    schema: z.object({
+      photoDataUri: z.string().optional(),
+      domain: z.string(),
+      domainGuidance: z.string(),
+      context: z.string(),
+      question: z.string(),
+    }),
+  },
+  system: `You are an expert educator in {{{domain}}} helping a learner understand an educational visual.
+Guidance for this domain: {{{domainGuidance}}}
+
+The learner has already been shown this about the visual:
+{{{context}}}
+
+Answer follow-up questions about the visual clearly and accurately, referring to what it shows where helpful.
+Keep answers short unless the learner asks for more detail. If a question is unrelated to the visual or to education, politely decline.`,
+  prompt: `{{#if photoDataUri}}{{media url=photoDataUri}}
+{{/if}}{{{question}}}`,
+  config: safetyConfig,
+  use: [meterUsage(models.text)],
+});
+
+const followUpChatFlow = ai.defineFlow(
+  {
+    name: 'followUpChatFlow',
+    inputSchema: FollowUpChatInputSchema,
+    outputSchema: FollowUpChatOutputSchema,
+  },
+  withUsageTracking('followUpChat', async ({messages, ...input}, {context}) => {
+    const question = messages[messages.length - 1];
+    if (question.role !== 'user') {
+      return flowFailure('invalid-input', 'The last message in the thread must be from the learner.');
+    }
+
+    const rateLimited = takeTokens(context, 'explanation');
+    if (rateLimited) {
+      return rateLimited;
+    }
+
+    try {
+      const {text, finishReason} = await prompt(
+        {
+          ...input,
+          domainGuidance: getDomain(input.domain).promptGuidance,
+          question: question.text,
+        },
+        {
+          messages: messages.slice(0, -1).map(message => ({
+            role: message.role,
+            content: [{text: message.text}],
+          })),
+        }
+      );
+      if (finishReason === 'blocked') {
+        return flowFailure('safety-blocked');
+      }
+      if (!text.trim()) {
+        return flowFailure('refused', 'Sorry, I was unable to answer that question.');
+      }
+      return {status: 'success' as const, reply: text};
+    } catch (e: any) {
+      console.error('Error answering follow-up question:', e);
+      return toFlowFailure(e);
+    }
+  })
+);
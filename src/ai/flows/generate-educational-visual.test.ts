@@ -0,0 +1,30 @@
+import assert from 'node:assert/strict';
+import {mkdtempSync, readFileSync} from 'node:fs';
+import {tmpdir} from 'node:os';
+import {join} from 'node:path';
+import {before, describe, it} from 'node:test';
+
+const usageLog = join(mkdtempSync(join(tmpdir(), 'eduvis-')), 'usage.jsonl');
+
+describe('generateEducationalVisual', () => {
+  let generateEducationalVisual: typeof import('@/ai/flows/generate-educational-visual').generateEducationalVisual;
+
+  before(async () => {
+    // The offline text model answers with text alone, as an image model does when it declines to draw.
+    process.env.EDUVIS_MODEL_PROVIDER = 'offline';
+    process.env.EDUVIS_IMAGE_MODELS = 'offline/text,offline/text';
+    process.env.EDUVIS_MODEL_RETRY_BASE_MS = '1';
+    process.env.EDUVIS_USAGE_LOG = usageLog;
+    ({generateEducationalVisual} = await import('@/ai/flows/generate-educational-visual'));
+  });
+
+  it('refuses without retrying when the image model answers with text alone', async () => {
+    const result = await generateEducationalVisual({prompt: 'mitosis', domain: 'Biology'});
+    assert.equal(result.status, 'refused');
+    assert.equal('retryable' in result && result.retryable, false);
+
+    const [record] = readFileSync(usageLog, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+    // The classifier, the image prompt and a single image attempt.
+    assert.equal(record.calls.length, 3);
+  });
+});
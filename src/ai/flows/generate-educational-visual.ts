@@ -6,105 +6,337 @@
  * - generateEducationalVisual - A function that handles the image generation process.
  * - GenerateEducationalVisualInput - The input type for the generateEducationalVisual function.
  * - GenerateEducationalVisualOutput - The return type for the generateEducationalVisual function.
+ * - VisualCandidate - One generated image with its description.
+ *
+ * With `output: 'svg'` the visual is drawn as SVG markup by the text model
+ * instead of being rendered by the image model, so its labels are real text.
+ * The markup is sanitized before it is returned.
  */
 
-import {ai} from '@/ai/genkit';
+import {ai, modelChains, models} from '@/ai/genkit';
+import {FlowFailure, flowFailure, flowResultSchema, runFlow, toFlowFailure} from '@/ai/flow-result';
+import {critiqueEducationalVisual} from '@/ai/flows/critique-educational-visual';
+import {withModelFallback} from '@/ai/model-fallback';
+import {loadDomainPrompt} from '@/ai/prompt-files';
+import {offlineFixture, placeholderMarkup} from '@/ai/providers/offline';
+import {takeTokens} from '@/ai/rate-limit';
+import {gateRequest} from '@/ai/request-classifier';
+import {meterUsage, withUsageTracking} from '@/ai/usage';
+import {createResultCache, normalizePrompt, resultCacheKey} from '@/ai/result-cache';
+import {safetyConfig} from '@/ai/safety';
+import {AudienceSchema, defaultAudience, getAudience} from '@/lib/audiences';
+import {DomainSchema, getDomain} from '@/lib/domains';
+import {LanguageSchema, defaultLanguage, promptLanguageName} from '@/lib/languages';
+import {PromptVersionSchema} from '@/lib/prompt-version';
+import {sanitizeSvg} from '@/lib/svg-sanitizer';
+import {CritiqueReview, VisualCritiqueSchema, isBetterReview} from '@/lib/visual-critique';
+import type {ActionContext} from 'genkit';
 import {z} from 'genkit';
 
 const GenerateEducationalVisualInputSchema = z.object({
   prompt: z.string().describe('The concept to visualize (e.g., mitosis).'),
-  domain: z.enum([
-    'Biology',
-    'Physics',
-    'Chemistry',
-    'Geography & Environment',
-    'Space Science',
-    'Engineering',
-    'Computer Science',
-    'Mathematics',
-  ]).describe('The educational or scientific domain.'),
+  domain: DomainSchema,
+  audience: AudienceSchema.optional().describe('Who the visual is for. Defaults to high school.'),
+  language: LanguageSchema.optional().describe('The language of the labels and description. Defaults to English.'),
+  variations: z
+    .number()
+    .int()
+    .min(1)
+    .max(4)
+    .optional()
+    .describe('How many candidate images to generate in parallel. Defaults to 1.'),
+  output: z
+    .enum(['raster', 'svg'])
+    .optional()
+    .describe('Whether to render a raster image or draw an SVG diagram. Defaults to raster.'),
+  selfCorrect: z
+    .boolean()
+    .optional()
+    .describe('Whether to regenerate a raster image once when its critique finds issues. Defaults to false.'),
+  regenerate: z
+    .boolean()
+    .optional()
+    .describe('Whether to skip the result cache and generate new visuals. Defaults to false.'),
 });
 export type GenerateEducationalVisualInput = z.infer<typeof GenerateEducationalVisualInputSchema>;
 
-const GenerateEducationalVisualOutputSchema = z.object({
+const VisualCandidateSchema = z.object({
   image: z.string().describe('The generated image as a data URI.'),
   description: z.string().describe('A two-line description of the generated visual.'),
+  svg: z.string().optional().describe('The sanitized SVG markup, for SVG diagrams.'),
+  critique: VisualCritiqueSchema.optional().describe('The accuracy review of a raster image, if it could be reviewed.'),
+  model: z.string().describe('The model that drew the visual.'),
 });
+export type VisualCandidate = z.infer<typeof VisualCandidateSchema>;
+
+const GenerateEducationalVisualOutputSchema = flowResultSchema(z.object({
+  candidates: z
+    .array(VisualCandidateSchema)
+    .min(1)
+    .describe('The generated images. Fewer than requested if some generations failed.'),
+  blocked: z.number().int().describe('How many of the requested images were withheld by the safety policy.'),
+  promptVersion: PromptVersionSchema.describe('The prompt file that wrote the image prompt.'),
+  textModel: z.string().describe('The model that wrote the image prompt.'),
+  cached: z.boolean().describe('Whether the visuals were served from the result cache.'),
+}));
 export type GenerateEducationalVisualOutput = z.infer<typeof GenerateEducationalVisualOutputSchema>;
 
+type GeneratedVisuals = Omit<Extract<GenerateEducationalVisualOutput, {status: 'success'}>, 'cached'>;
+
+/**
+ * Successful results by request and prompt version, so a repeated request skips
+ * every model call. `regenerate` skips the lookup and replaces the entry.
+ */
+const visualCache = createResultCache<GeneratedVisuals>('generateEducationalVisual');
+
 export async function generateEducationalVisual(input: GenerateEducationalVisualInput): Promise<GenerateEducationalVisualOutput> {
-  return generateEducationalVisualFlow(input);
+  return runFlow(generateEducationalVisualFlow, input);
 }
 
-const textGenerationPrompt = ai.definePrompt({
-  name: 'generateEducationalVisualTextPrompt',
-  input: {schema: GenerateEducationalVisualInputSchema},
-  prompt: `You are an expert in creating image generation prompts for educational and scientific visuals.
-Your task is to take a user's concept and domain and convert it into a clear, descriptive prompt for an image generation model.
-The prompt should describe a diagram, illustration, or visual representation that is accurate, labeled, and helpful for learning.
-
-Focus on generating a descriptive prompt for the visual, not a conversational response.
-
-The user wants an image for:
-Domain: {{{domain}}}
-Concept: {{{prompt}}}
-
-Generate a detailed image prompt based on this. For example, if the user asks for "photosynthesis", a good prompt would be:
-"A detailed diagram of photosynthesis, showing a plant cell with chloroplasts. Illustrate the inputs (sunlight, water, carbon dioxide) and outputs (glucose, oxygen). Use clear labels for all components."
-`,
-  config: {
-    safetySettings: [
-      {
-        category: 'HARM_CATEGORY_HATE_SPEECH',
-        threshold: 'BLOCK_ONLY_HIGH',
-      },
-      {
-        category: 'HARM_CATEGORY_DANGEROUS_CONTENT',
-        threshold: 'BLOCK_NONE',
-      },
-      {
-        category: 'HARM_CATEGORY_HARASSMENT',
-        threshold: 'BLOCK_MEDIUM_AND_ABOVE',
-      },
-      {
-        category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT',
-        threshold: 'BLOCK_LOW_AND_ABOVE',
-      },
-    ],
-  },
+const TextGenerationPromptInputSchema = GenerateEducationalVisualInputSchema.omit({output: true, selfCorrect: true, regenerate: true}).extend({
+  domainGuidance: z.string(),
+  audienceGuidance: z.string(),
+  languageName: z.string(),
+});
+
+ai.defineSchema('GenerateEducationalVisualTextPromptInput', TextGenerationPromptInputSchema);
+
+const SvgDiagramSchema = z.object({
+  svg: z.string().describe('A complete, standalone <svg> document.'),
+  description: z.string().describe('A two-line description of the diagram.'),
+});
+
+offlineFixture(SvgDiagramSchema, seed => ({
+  svg: placeholderMarkup('Offline diagram', seed),
+  description: `Offline description ${seed.toString(16)}`,
+}));
+
+const svgDiagramPrompt = ai.definePrompt({
+  name: 'generateSvgDiagramPrompt',
+  input: {schema: z.object({imagePrompt: z.string(), domainGuidance: z.string(), languageName: z.string()})},
+  output: {schema: SvgDiagramSchema},
+  prompt: `You are an expert illustrator of educational diagrams who draws directly in SVG.
+Guidance for this domain: {{{domainGuidance}}}
+
+Draw the following diagram as a single standalone SVG document:
+{{{imagePrompt}}}
+
+Requirements:
+- Use a viewBox of "0 0 800 600" and only basic shapes, paths, markers, gradients and <text>.
+- Write every label as a <text> element with a font-size of at least 14 so it stays selectable and searchable. Do not draw text as paths.
+- Style with presentation attributes (fill, stroke, font-size). Do not use <style>, <script>, <image>, <foreignObject>, links, animations or external resources.
+- Keep the layout uncluttered and make sure labels do not overlap shapes or each other.
+- Write every label in {{{languageName}}}.
+
+Also provide a 2-line description for the diagram, in {{{languageName}}}.`,
+  config: safetyConfig,
+  use: [meterUsage(models.text)],
 });
 
+async function generateSvgCandidate(imagePrompt: string, domainGuidance: string, languageName: string): Promise<VisualCandidate | FlowFailure> {
+  try {
+    const {output, finishReason} = await svgDiagramPrompt({imagePrompt, domainGuidance, languageName});
+    if (finishReason === 'blocked') {
+      return flowFailure('safety-blocked');
+    }
+    const svg = output && sanitizeSvg(output.svg);
+    if (!svg) {
+      return flowFailure('refused', 'Sorry, I could not draw a valid diagram for that concept.');
+    }
+    return {
+      image: `data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`,
+      description: output.description,
+      svg,
+      model: models.text,
+    };
+  } catch (e: any) {
+    console.error('Error generating SVG diagram:', e);
+    return toFlowFailure(e);
+  }
+}
+
+/** Draws one raster image, falling back along the image model chain, and records which model drew it. */
+async function generateCandidate(imagePrompt: string, languageName: string): Promise<VisualCandidate | FlowFailure> {
+  try {
+    const {result: response, model} = await withModelFallback(modelChains.image, model =>
+      ai.generate({
+        model,
+        prompt: `${imagePrompt} Also, provide a 2-line description for the visual, written in ${languageName}.`,
+        config: {
+          ...safetyConfig,
+          responseModalities: ['TEXT', 'IMAGE'],
+        },
+        use: [meterUsage(model)],
+      })
+    );
+
+    const {text: description, media, finishReason} = response;
+    if (finishReason === 'blocked') {
+      return flowFailure('safety-blocked');
+    }
+    if (!media?.url) {
+      // The image model answers with text alone when it declines to draw.
+      return flowFailure('refused', 'Sorry, I was unable to draw this visual.');
+    }
+    return {image: media.url, description: description ?? '', model};
+  } catch (e: any) {
+    console.error('Error generating image:', e);
+    return toFlowFailure(e);
+  }
+}
+
+interface CritiqueContext {
+  prompt: string;
+  domain: GenerateEducationalVisualInput['domain'];
+  language: GenerateEducationalVisualInput['language'];
+}
+
+async function critiqueCandidate(candidate: VisualCandidate, context: CritiqueContext): Promise<CritiqueReview | undefined> {
+  const result = await critiqueEducationalVisual({image: candidate.image, ...context});
+  if (result.status !== 'success') {
+    console.warn('Could not critique visual:', result.message);
+    return undefined;
+  }
+  return {issues: result.issues, confidence: result.confidence};
+}
+
+function correctionPrompt(imagePrompt: string, critique: CritiqueReview): string {
+  const issues = critique.issues.map(issue => `- ${issue.description}`).join('\n');
+  return `${imagePrompt}\n\nA previous attempt at this visual had these inaccuracies. Make sure the new visual corrects them:\n${issues}`;
+}
+
+/**
+ * Draws a raster image and has critiqueEducationalVisual review it. With
+ * `selfCorrect` an image with issues is drawn once more with the issues folded
+ * into the prompt; whichever attempt is reviewed as better is kept, and its
+ * critique carries the reviews of both.
+ */
+async function generateReviewedCandidate(
+  imagePrompt: string,
+  languageName: string,
+  context: CritiqueContext,
+  selfCorrect: boolean,
+  rateLimitContext: ActionContext | undefined
+): Promise<VisualCandidate | FlowFailure> {
+  const candidate = await generateCandidate(imagePrompt, languageName);
+  if ('status' in candidate) {
+    return candidate;
+  }
+  const critique = await critiqueCandidate(candidate, context);
+  if (!critique || critique.issues.length === 0 || !selfCorrect) {
+    return {...candidate, critique};
+  }
+  // The correction draws another image, so it is charged separately; without a token the first attempt is kept.
+  if (takeTokens(rateLimitContext, 'image')) {
+    return {...candidate, critique};
+  }
+
+  const corrected = await generateCandidate(correctionPrompt(imagePrompt, critique), languageName);
+  if ('status' in corrected) {
+    return {...candidate, critique};
+  }
+  const correctedCritique = await critiqueCandidate(corrected, context);
+  if (!correctedCritique) {
+    return {...candidate, critique};
+  }
+  const keepRetry = isBetterReview(correctedCritique, critique);
+  const correction = {first: critique, retry: correctedCritique, kept: keepRetry ? ('retry' as const) : ('first' as const)};
+  return keepRetry
+    ? {...corrected, critique: {...correctedCritique, correction}}
+    : {...candidate, critique: {...critique, correction}};
+}
+
 const generateEducationalVisualFlow = ai.defineFlow(
   {
     name: 'generateEducationalVisualFlow',
     inputSchema: GenerateEducationalVisualInputSchema,
     outputSchema: GenerateEducationalVisualOutputSchema,
   },
-  async (input) => {
+  withUsageTracking('generateEducationalVisual', async ({
+    variations = 1,
+    output = 'raster',
+    selfCorrect = false,
+    regenerate = false,
+    audience = defaultAudience,
+    language = defaultLanguage,
+    ...input
+  }, {context}) => {
     try {
-      const llmResponse = await textGenerationPrompt(input);
-      const imagePrompt = llmResponse.text;
+      // The image prompt is written by the domain's variant of the prompt file, if it has one.
+      const {prompt: textGenerationPrompt, promptVersion} = await loadDomainPrompt<typeof TextGenerationPromptInputSchema>(
+        'generateEducationalVisualTextPrompt',
+        input.domain
+      );
+      const cacheKey = resultCacheKey({
+        prompt: normalizePrompt(input.prompt),
+        domain: input.domain,
+        audience,
+        language,
+        variations,
+        output,
+        selfCorrect,
+        promptVersion,
+      });
+      if (regenerate) {
+        visualCache.bypass();
+      } else {
+        const cached = visualCache.get(cacheKey);
+        if (cached) {
+          return {...cached, cached: true};
+        }
+      }
 
-      if (imagePrompt.includes("I don't do that.")) {
-        return {image: `❌ ${imagePrompt}`, description: ''};
+      const rateLimited = takeTokens(context, 'image', variations);
+      if (rateLimited) {
+        return rateLimited;
       }
 
-      const {text: description, media} = await ai.generate({
-        model: 'googleai/gemini-2.0-flash-preview-image-generation',
-        prompt: `${imagePrompt} Also, provide a 2-line description for the visual.`,
-        config: {
-          responseModalities: ['TEXT', 'IMAGE'],
-        },
-      });
+      const refusal = await gateRequest({prompt: input.prompt, domain: input.domain});
+      if (refusal) {
+        return refusal;
+      }
 
-      if (!media || !media.url) {
-        return {image: '❌ "I don\'t do that. I only create educational and scientific visuals." ', description: ''};
+      const domainGuidance = getDomain(input.domain).promptGuidance;
+      const languageName = promptLanguageName(language);
+      const {result: llmResponse, model: textModel} = await withModelFallback(modelChains.text, model =>
+        textGenerationPrompt(
+          {
+            ...input,
+            audience,
+            language,
+            domainGuidance,
+            audienceGuidance: getAudience(audience).promptGuidance,
+            languageName,
+          },
+          {model, config: safetyConfig, use: [meterUsage(model)]}
+        )
+      );
+      if (llmResponse.finishReason === 'blocked') {
+        return flowFailure('safety-blocked');
       }
+      const imagePrompt = llmResponse.text;
 
-      return {image: media.url, description: description ?? ''};
+      const critiqueContext = {prompt: input.prompt, domain: input.domain, language};
+      const results = await Promise.all(
+        Array.from({length: variations}, () =>
+          output === 'svg'
+            ? generateSvgCandidate(imagePrompt, domainGuidance, languageName)
+            : generateReviewedCandidate(imagePrompt, languageName, critiqueContext, selfCorrect, context)
+        )
+      );
+      const candidates = results.filter((result): result is VisualCandidate => !('status' in result));
+      const blocked = results.filter(result => 'status' in result && result.status === 'safety-blocked').length;
+      if (candidates.length === 0) {
+        // Every generation failed; a safety block is the reason the user can act on.
+        return blocked > 0 ? flowFailure('safety-blocked') : (results[0] as FlowFailure);
+      }
+
+      const result = {status: 'success' as const, candidates, blocked, promptVersion, textModel};
+      visualCache.set(cacheKey, result);
+      return {...result, cached: false};
     } catch (e: any) {
-      console.error('Error generating image:', e);
-      return {image: '❌ "I don\'t do that. I only create educational and scientific visuals." ', description: ''};
+      console.error('Error generating image prompt:', e);
+      return toFlowFailure(e);
     }
-  }
+  })
 );
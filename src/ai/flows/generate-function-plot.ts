@@ -0,0 +1,133 @@
+'use server';
+
+/**
+ * @fileOverview A flow for describing a mathematical graph as a plot spec that the app evaluates exactly.
+ *
+ * - generateFunctionPlot - A function that returns a plot spec for a concept.
+ * - GenerateFunctionPlotInput - The input type for the generateFunctionPlot function.
+ * - GenerateFunctionPlotOutput - The return type for the generateFunctionPlot function.
+ *
+ * The model only chooses the expressions, ranges and annotations; every
+ * expression is parsed here and again in the browser, which samples the curves.
+ */
+
+import {ai, models} from '@/ai/genkit';
+import {flowFailure, flowResultSchema, runFlow, toFlowFailure} from '@/ai/flow-result';
+import {offlineFixture} from '@/ai/providers/offline';
+import {takeTokens} from '@/ai/rate-limit';
+import {safetyConfig} from '@/ai/safety';
+import {meterUsage, withUsageTracking} from '@/ai/usage';
+import {AudienceSchema, defaultAudience, getAudience} from '@/lib/audiences';
+import {DomainSchema, getDomain, supportsFormat} from '@/lib/domains';
+import {LanguageSchema, defaultLanguage, promptLanguageName} from '@/lib/languages';
+import {PlotSpecSchema, resolvePlot} from '@/lib/plot';
+import {z} from 'genkit';
+
+const GenerateFunctionPlotInputSchema = z.object({
+  prompt: z.string().describe('The graph to plot (e.g., sin(x) and its derivative).'),
+  domain: DomainSchema.describe('A domain whose formats include plot.'),
+  audience: AudienceSchema.optional().describe('Who the plot is for. Defaults to high school.'),
+  language: LanguageSchema.optional().describe('The language of the labels and description. Defaults to English.'),
+});
+export type GenerateFunctionPlotInput = z.infer<typeof GenerateFunctionPlotInputSchema>;
+
+const GenerateFunctionPlotOutputSchema = flowResultSchema(z.object({
+  spec: PlotSpecSchema,
+  description: z.string().describe('A two-line description of the plot.'),
+}));
+export type GenerateFunctionPlotOutput = z.infer<typeof GenerateFunctionPlotOutputSchema>;
+
+export async function generateFunctionPlot(input: GenerateFunctionPlotInput): Promise<GenerateFunctionPlotOutput> {
+  return runFlow(generateFunctionPlotFlow, input);
+}
+
+offlineFixture(PlotSpecSchema, seed => ({
+  title: `Offline plot ${seed.toString(16)}`,
+  xLabel: 'x',
+  yLabel: 'y',
+  xMin: '-2*pi',
+  xMax: '2*pi',
+  yMin: '-2',
+  yMax: '2',
+  series: [{expression: 'sin(x)', label: 'sin(x)'}],
+  annotations: [{x: 'pi/2', y: '1', label: 'Maximum'}],
+}));
+
+const prompt = ai.definePrompt({
+  name: 'generateFunctionPlotPrompt',
+  input: {
+    schema: z.object({
+      prompt: z.string(),
+      domain: z.string(),
+      domainGuidance: z.string(),
+      audienceGuidance: z.string(),
+      languageName: z.string(),
+    }),
+  },
+  output: {
+    schema: z.object({
+      spec: PlotSpecSchema,
+      description: z.string().describe('A two-line description of the plot.'),
+    }),
+  },
+  prompt: `You are an expert {{{domain}}} teacher preparing an exact graph for a learner.
+Guidance for this domain: {{{domainGuidance}}}
+Audience: {{{audienceGuidance}}} Choose which features to annotate and how to word them for this audience.
+
+The learner asked for: {{{prompt}}}
+
+Describe the graph as a plot spec with up to 4 curves, each a function of x.
+Write expressions with +, -, *, /, ^, parentheses, the constants pi and e, and these functions:
+sin, cos, tan, sec, csc, cot, asin, acos, atan, sinh, cosh, tanh, exp, ln, log10, log2, sqrt, cbrt, abs, sign, floor, ceil, round, min, max, pow.
+Range bounds and annotation coordinates may be numbers or constant expressions such as "2*pi".
+Choose an x range that shows the interesting behavior, and set a y range only if a curve has asymptotes or grows too fast to read.
+Annotate key features such as roots, extrema, intercepts or asymptotes, computing their exact coordinates.
+Write the title, axis labels, curve labels and annotations in {{{languageName}}}, using its native script; expressions stay in the syntax above.
+
+Also provide a 2-line description for the plot, in {{{languageName}}}.`,
+  config: safetyConfig,
+  use: [meterUsage(models.text)],
+});
+
+const generateFunctionPlotFlow = ai.defineFlow(
+  {
+    name: 'generateFunctionPlotFlow',
+    inputSchema: GenerateFunctionPlotInputSchema,
+    outputSchema: GenerateFunctionPlotOutputSchema,
+  },
+  withUsageTracking('generateFunctionPlot', async ({audience = defaultAudience, language = defaultLanguage, ...input}, {context}) => {
+    if (!supportsFormat(input.domain, 'plot')) {
+      return flowFailure('invalid-input', 'Function plots are not offered for this domain.');
+    }
+
+    const rateLimited = takeTokens(context, 'explanation');
+    if (rateLimited) {
+      return rateLimited;
+    }
+
+    try {
+      const {output, finishReason} = await prompt({
+        ...input,
+        domainGuidance: getDomain(input.domain).promptGuidance,
+        audienceGuidance: getAudience(audience).promptGuidance,
+        languageName: promptLanguageName(language),
+      });
+      if (finishReason === 'blocked') {
+        return flowFailure('safety-blocked');
+      }
+      if (!output) {
+        return flowFailure('refused', 'Sorry, I could not plot that.');
+      }
+
+      try {
+        resolvePlot(output.spec);
+      } catch (e: any) {
+        return flowFailure('refused', `Sorry, I could not plot that: ${e.message}.`);
+      }
+      return {status: 'success' as const, spec: output.spec, description: output.description};
+    } catch (e: any) {
+      console.error('Error generating function plot:', e);
+      return toFlowFailure(e);
+    }
+  })
+);
@@ -0,0 +1,137 @@
+'use server';
+
+/**
+ * @fileOverview A flow for drawing a concept as a Mermaid diagram instead of a painted image.
+ *
+ * - generateMermaidDiagram - A function that returns Mermaid source for a concept.
+ * - GenerateMermaidDiagramInput - The input type for the generateMermaidDiagram function.
+ * - GenerateMermaidDiagramOutput - The return type for the generateMermaidDiagram function.
+ */
+
+import {ai, models} from '@/ai/genkit';
+import {flowFailure, flowResultSchema, runFlow, toFlowFailure} from '@/ai/flow-result';
+import {offlineFixture} from '@/ai/providers/offline';
+import {takeTokens} from '@/ai/rate-limit';
+import {safetyConfig} from '@/ai/safety';
+import {meterUsage, withUsageTracking} from '@/ai/usage';
+import {AudienceSchema, defaultAudience, getAudience} from '@/lib/audiences';
+import {DomainSchema, getDomain, supportsFormat} from '@/lib/domains';
+import {LanguageSchema, defaultLanguage, promptLanguageName} from '@/lib/languages';
+import {mermaidSyntaxError} from '@/lib/mermaid-source';
+import {z} from 'genkit';
+
+const GenerateMermaidDiagramInputSchema = z.object({
+  prompt: z.string().describe('The concept to diagram (e.g., binary search).'),
+  domain: DomainSchema.describe('A domain whose formats include mermaid.'),
+  audience: AudienceSchema.optional().describe('Who the diagram is for. Defaults to high school.'),
+  language: LanguageSchema.optional().describe('The language of the labels and description. Defaults to English.'),
+});
+export type GenerateMermaidDiagramInput = z.infer<typeof GenerateMermaidDiagramInputSchema>;
+
+const GenerateMermaidDiagramOutputSchema = flowResultSchema(z.object({
+  source: z.string().describe('The Mermaid source of the diagram.'),
+  description: z.string().describe('A two-line description of the diagram.'),
+}));
+export type GenerateMermaidDiagramOutput = z.infer<typeof GenerateMermaidDiagramOutputSchema>;
+
+export async function generateMermaidDiagram(input: GenerateMermaidDiagramInput): Promise<GenerateMermaidDiagramOutput> {
+  return runFlow(generateMermaidDiagramFlow, input);
+}
+
+const MermaidDiagramSchema = z.object({
+  mermaid: z.string().describe('Mermaid source, without a Markdown code fence.'),
+  description: z.string().describe('A two-line description of the diagram.'),
+});
+
+offlineFixture(MermaidDiagramSchema, seed => ({
+  mermaid: `flowchart TD\n  A["Offline step ${seed.toString(16)}"] --> B["Offline result"]`,
+  description: `Offline description ${seed.toString(16)}`,
+}));
+
+const prompt = ai.definePrompt({
+  name: 'generateMermaidDiagramPrompt',
+  input: {
+    schema: z.object({
+      prompt: z.string(),
+      domain: z.string(),
+      domainGuidance: z.string(),
+      audienceGuidance: z.string(),
+      languageName: z.string(),
+    }),
+  },
+  output: {schema: MermaidDiagramSchema},
+  prompt: `You are an expert {{{domain}}} educator who explains concepts with precise diagrams written in Mermaid.
+Guidance for this domain: {{{domainGuidance}}}
+Audience: {{{audienceGuidance}}} Pitch the level of detail and the vocabulary of the labels at this audience.
+
+Draw this concept as a Mermaid diagram: {{{prompt}}}
+
+Choose the diagram type that fits the concept best:
+- flowchart TD for algorithms, decision procedures and control loops;
+- sequenceDiagram for protocols and message exchanges between parties;
+- stateDiagram-v2 for state machines;
+- classDiagram or erDiagram for structures and their relationships.
+
+Rules:
+- Use short, descriptive node IDs and put every label in double quotes, e.g. A["Compare middle element"].
+- Write every label in {{{languageName}}}, using its native script; node IDs stay in plain ASCII.
+- Do not use HTML, click handlers, links, styles or init directives.
+- Keep it under 30 nodes or messages so it stays readable.
+
+Also provide a 2-line description for the diagram, in {{{languageName}}}.`,
+  config: safetyConfig,
+  use: [meterUsage(models.text)],
+});
+
+/** Removes a Markdown code fence the model may have wrapped the source in. */
+function stripFence(source: string): string {
+  return source
+    .trim()
+    .replace(/^```(?:mermaid)?\s*\n/, '')
+    .replace(/\n?```$/, '')
+    .trim();
+}
+
+const generateMermaidDiagramFlow = ai.defineFlow(
+  {
+    name: 'generateMermaidDiagramFlow',
+    inputSchema: GenerateMermaidDiagramInputSchema,
+    outputSchema: GenerateMermaidDiagramOutputSchema,
+  },
+  withUsageTracking('generateMermaidDiagram', async ({audience = defaultAudience, language = defaultLanguage, ...input}, {context}) => {
+    if (!supportsFormat(input.domain, 'mermaid')) {
+      return flowFailure('invalid-input', 'Mermaid diagrams are not offered for this domain.');
+    }
+
+    const rateLimited = takeTokens(context, 'explanation');
+    if (rateLimited) {
+      return rateLimited;
+    }
+
+    try {
+      const {output, finishReason} = await prompt({
+        ...input,
+        domainGuidance: getDomain(input.domain).promptGuidance,
+        audienceGuidance: getAudience(audience).promptGuidance,
+        languageName: promptLanguageName(language),
+      });
+      if (finishReason === 'blocked') {
+        return flowFailure('safety-blocked');
+      }
+
+      if (!output) {
+        return flowFailure('refused', 'Sorry, I could not draw a diagram for that concept.');
+      }
+      const source = stripFence(output.mermaid);
+      const syntaxError = mermaidSyntaxError(source);
+      if (syntaxError) {
+        console.warn('Generated Mermaid source is malformed:', syntaxError);
+        return flowFailure('model-unavailable', 'Sorry, the diagram I drew was malformed. Please try again.');
+      }
+      return {status: 'success' as const, source, description: output.description};
+    } catch (e: any) {
+      console.error('Error generating Mermaid diagram:', e);
+      return toFlowFailure(e);
+    }
+  })
+);
@@ -0,0 +1,123 @@
+'use server';
+
+/**
+ * @fileOverview A flow for resolving a chemistry concept to molecules that the app draws from SMILES.
+ *
+ * - generateMoleculeStructures - A function that returns the molecules for a concept with a description.
+ * - GenerateMoleculeStructuresInput - The input type for the generateMoleculeStructures function.
+ * - GenerateMoleculeStructuresOutput - The return type for the generateMoleculeStructures function.
+ *
+ * Each SMILES string is validated here; molecules that fail are dropped, and
+ * the structures are laid out and drawn in the browser.
+ */
+
+import {ai, models} from '@/ai/genkit';
+import {flowFailure, flowResultSchema, runFlow, toFlowFailure} from '@/ai/flow-result';
+import {offlineFixture} from '@/ai/providers/offline';
+import {takeTokens} from '@/ai/rate-limit';
+import {safetyConfig} from '@/ai/safety';
+import {meterUsage, withUsageTracking} from '@/ai/usage';
+import {AudienceSchema, defaultAudience, getAudience} from '@/lib/audiences';
+import {DomainSchema, getDomain, supportsFormat} from '@/lib/domains';
+import {LanguageSchema, defaultLanguage, promptLanguageName} from '@/lib/languages';
+import {MoleculeSchema, validateSmiles} from '@/lib/molecules';
+import {z} from 'genkit';
+
+const GenerateMoleculeStructuresInputSchema = z.object({
+  prompt: z.string().describe('The molecule, reaction or concept to draw (e.g., structure of benzene).'),
+  domain: DomainSchema.describe('A domain whose formats include structure.'),
+  audience: AudienceSchema.optional().describe('Who the structures are for. Defaults to high school.'),
+  language: LanguageSchema.optional().describe('The language of the names and description. Defaults to English.'),
+});
+export type GenerateMoleculeStructuresInput = z.infer<typeof GenerateMoleculeStructuresInputSchema>;
+
+const GenerateMoleculeStructuresOutputSchema = flowResultSchema(z.object({
+  molecules: z.array(MoleculeSchema).min(1).describe('The molecules whose SMILES passed validation.'),
+  description: z.string().describe('A two-line description of the structures.'),
+}));
+export type GenerateMoleculeStructuresOutput = z.infer<typeof GenerateMoleculeStructuresOutputSchema>;
+
+export async function generateMoleculeStructures(input: GenerateMoleculeStructuresInput): Promise<GenerateMoleculeStructuresOutput> {
+  return runFlow(generateMoleculeStructuresFlow, input);
+}
+
+offlineFixture(MoleculeSchema, seed => ({name: `Offline molecule ${seed.toString(16)}`, smiles: 'c1ccccc1O'}));
+
+const prompt = ai.definePrompt({
+  name: 'generateMoleculeStructuresPrompt',
+  input: {
+    schema: z.object({
+      prompt: z.string(),
+      domain: z.string(),
+      domainGuidance: z.string(),
+      audienceGuidance: z.string(),
+      languageName: z.string(),
+    }),
+  },
+  output: {
+    schema: z.object({
+      molecules: z.array(MoleculeSchema).max(6),
+      description: z.string().describe('A two-line description of the structures.'),
+    }),
+  },
+  prompt: `You are an expert {{{domain}}} teacher preparing accurate structural formulas for a learner.
+Guidance for this domain: {{{domainGuidance}}}
+Audience: {{{audienceGuidance}}} Pitch the names and the description at this audience.
+
+The learner asked for: {{{prompt}}}
+
+List the molecules needed to illustrate this, at most 6: a single molecule for a compound, or the reactants and products of a reaction in order.
+Give each one a name in {{{languageName}}} and a canonical SMILES string. Use aromatic notation for aromatic rings, brackets for charged atoms, and check every ring closure and valence.
+If the request is not about specific molecules, return an empty list.
+
+Also provide a 2-line description for the structures, in {{{languageName}}}.`,
+  config: safetyConfig,
+  use: [meterUsage(models.text)],
+});
+
+const generateMoleculeStructuresFlow = ai.defineFlow(
+  {
+    name: 'generateMoleculeStructuresFlow',
+    inputSchema: GenerateMoleculeStructuresInputSchema,
+    outputSchema: GenerateMoleculeStructuresOutputSchema,
+  },
+  withUsageTracking('generateMoleculeStructures', async ({audience = defaultAudience, language = defaultLanguage, ...input}, {context}) => {
+    if (!supportsFormat(input.domain, 'structure')) {
+      return flowFailure('invalid-input', 'Chemical structures are not offered for this domain.');
+    }
+
+    const rateLimited = takeTokens(context, 'explanation');
+    if (rateLimited) {
+      return rateLimited;
+    }
+
+    try {
+      const {output, finishReason} = await prompt({
+        ...input,
+        domainGuidance: getDomain(input.domain).promptGuidance,
+        audienceGuidance: getAudience(audience).promptGuidance,
+        languageName: promptLanguageName(language),
+      });
+      if (finishReason === 'blocked') {
+        return flowFailure('safety-blocked');
+      }
+
+      const molecules = [];
+      for (const molecule of output?.molecules ?? []) {
+        const problem = await validateSmiles(molecule.smiles);
+        if (problem) {
+          console.warn(`Dropping invalid SMILES for ${molecule.name} (${molecule.smiles}): ${problem}`);
+          continue;
+        }
+        molecules.push(molecule);
+      }
+      if (!output || molecules.length === 0) {
+        return flowFailure('refused', 'Sorry, I could not find valid chemical structures for that request.');
+      }
+      return {status: 'success' as const, molecules, description: output.description};
+    } catch (e: any) {
+      console.error('Error generating molecule structures:', e);
+      return toFlowFailure(e);
+    }
+  })
+);
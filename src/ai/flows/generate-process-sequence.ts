@@ -0,0 +1,177 @@
+'use server';
+
+/**
+ * @fileOverview A flow for visualizing a multi-stage process as an ordered series of frames.
+ *
+ * - generateProcessSequence - A function that plans the stages of a process and draws one image per stage.
+ * - GenerateProcessSequenceInput - The input type for the generateProcessSequence function.
+ * - GenerateProcessSequenceOutput - The return type for the generateProcessSequence function.
+ * - SequenceStage - A single generated stage.
+ */
+
+import {ai, modelChains, models} from '@/ai/genkit';
+import {flowFailure, flowResultSchema, runFlow, toFlowFailure} from '@/ai/flow-result';
+import {withModelFallback} from '@/ai/model-fallback';
+import {takeTokens} from '@/ai/rate-limit';
+import {gateRequest} from '@/ai/request-classifier';
+import {safetyConfig} from '@/ai/safety';
+import {meterUsage, withUsageTracking} from '@/ai/usage';
+import {AudienceSchema, defaultAudience, getAudience} from '@/lib/audiences';
+import {DomainSchema, getDomain} from '@/lib/domains';
+import {LanguageSchema, defaultLanguage, promptLanguageName} from '@/lib/languages';
+import {z} from 'genkit';
+import {ValidationError} from 'genkit/schema';
+
+const GenerateProcessSequenceInputSchema = z.object({
+  prompt: z.string().describe('The process to visualize (e.g., mitosis).'),
+  domain: DomainSchema,
+  stageCount: z.number().int().min(2).max(8).describe('How many stages to split the process into.'),
+  audience: AudienceSchema.optional().describe('Who the sequence is for. Defaults to high school.'),
+  language: LanguageSchema.optional().describe('The language of the titles, captions and labels. Defaults to English.'),
+});
+export type GenerateProcessSequenceInput = z.infer<typeof GenerateProcessSequenceInputSchema>;
+
+const SequenceStageSchema = z.object({
+  title: z.string().describe('The name of the stage, e.g. "Prophase".'),
+  caption: z.string().describe('A one or two sentence caption explaining the stage.'),
+  image: z.string().describe('The generated image for the stage as a data URI.'),
+  model: z.string().describe('The model that drew the stage.'),
+});
+export type SequenceStage = z.infer<typeof SequenceStageSchema>;
+
+const GenerateProcessSequenceOutputSchema = flowResultSchema(z.object({
+  stages: z.array(SequenceStageSchema),
+}));
+export type GenerateProcessSequenceOutput = z.infer<typeof GenerateProcessSequenceOutputSchema>;
+
+export async function generateProcessSequence(input: GenerateProcessSequenceInput): Promise<GenerateProcessSequenceOutput> {
+  return runFlow(generateProcessSequenceFlow, input);
+}
+
+/** The plan for a sequence of exactly `stageCount` stages; a plan of any other length fails validation. */
+function sequencePlanSchema(stageCount: number) {
+  return z.object({
+    styleGuide: z
+      .string()
+      .describe('Visual style shared by every frame: viewpoint, color palette, labeling style and the recurring subjects.'),
+    stages: z
+      .array(
+        z.object({
+          title: z.string(),
+          caption: z.string(),
+          imagePrompt: z.string().describe('What this frame must show, including its labels.'),
+        })
+      )
+      .min(stageCount)
+      .max(stageCount)
+      .describe('The ordered stages.'),
+  });
+}
+
+const planPrompt = ai.definePrompt({
+  name: 'planProcessSequencePrompt',
+  input: {
+    schema: GenerateProcessSequenceInputSchema.extend({
+      domainGuidance: z.string(),
+      audienceGuidance: z.string(),
+      languageName: z.string(),
+    }),
+  },
+  // Narrowed to the requested stage count on each call.
+  output: {schema: sequencePlanSchema(8)},
+  prompt: `You are an expert in creating educational and scientific visuals.
+Split the following process into exactly {{stageCount}} ordered stages so that it can be drawn as a series of frames, one per stage.
+
+Domain: {{{domain}}}
+Process: {{{prompt}}}
+Guidance for this domain: {{{domainGuidance}}}
+Audience: {{{audienceGuidance}}} Pitch the level of detail, the vocabulary and the visual style at this audience.
+
+For each stage give its title, a short caption for learners, and an image prompt describing a clearly labeled diagram of that stage.
+Write the titles and captions in {{{languageName}}}, and quote the exact label texts in that language in each image prompt.
+Also write a style guide that every frame will follow so that the frames look like one consistent series.`,
+  config: safetyConfig,
+  use: [meterUsage(models.text)],
+});
+
+const generateProcessSequenceFlow = ai.defineFlow(
+  {
+    name: 'generateProcessSequenceFlow',
+    inputSchema: GenerateProcessSequenceInputSchema,
+    outputSchema: GenerateProcessSequenceOutputSchema,
+  },
+  withUsageTracking('generateProcessSequence', async ({audience = defaultAudience, language = defaultLanguage, ...input}, {context}) => {
+    const rateLimited = takeTokens(context, 'image', input.stageCount);
+    if (rateLimited) {
+      return rateLimited;
+    }
+
+    const refusal = await gateRequest({prompt: input.prompt, domain: input.domain});
+    if (refusal) {
+      return refusal;
+    }
+
+    try {
+      const {output: plan, finishReason} = await planPrompt(
+        {
+          ...input,
+          domainGuidance: getDomain(input.domain).promptGuidance,
+          audienceGuidance: getAudience(audience).promptGuidance,
+          languageName: promptLanguageName(language),
+        },
+        {output: {schema: sequencePlanSchema(input.stageCount)}}
+      );
+      if (finishReason === 'blocked') {
+        return flowFailure('safety-blocked');
+      }
+      if (!plan) {
+        return flowFailure('refused');
+      }
+
+      // Frames are drawn one after another so that each later frame can use
+      // the first one as a style reference.
+      const stages: SequenceStage[] = [];
+      for (const [index, stage] of plan.stages.entries()) {
+        const reference = stages[0]?.image;
+        const {result: response, model} = await withModelFallback(modelChains.image, model =>
+          ai.generate({
+            model,
+            prompt: [
+              ...(reference ? [{media: {url: reference}}] : []),
+              {
+                text: `Frame ${index + 1} of ${plan.stages.length} in an educational sequence about ${input.prompt}.
+Style guide: ${plan.styleGuide}
+Write every label in ${promptLanguageName(language)}, using its native script.
+${reference ? 'Match the style, layout and subjects of the reference image exactly.\n' : ''}Stage "${stage.title}": ${stage.imagePrompt}`,
+              },
+            ],
+            config: {
+              ...safetyConfig,
+              responseModalities: ['TEXT', 'IMAGE'],
+            },
+            use: [meterUsage(model)],
+          })
+        );
+
+        const {media, finishReason: imageFinishReason} = response;
+
+        if (imageFinishReason === 'blocked') {
+          return flowFailure('safety-blocked');
+        }
+        if (!media || !media.url) {
+          return flowFailure('refused', `Sorry, I was unable to draw the "${stage.title}" stage.`);
+        }
+        stages.push({title: stage.title, caption: stage.caption, image: media.url, model});
+      }
+
+      return {status: 'success' as const, stages};
+    } catch (e: any) {
+      console.error('Error generating process sequence:', e);
+      if (e instanceof ValidationError) {
+        // The input was validated before the flow ran, so this is a plan with the wrong number of stages.
+        return flowFailure('model-unavailable', `Sorry, I was unable to split this process into ${input.stageCount} stages. Please try again.`);
+      }
+      return toFlowFailure(e);
+    }
+  })
+);
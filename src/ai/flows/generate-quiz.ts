@@ -0,0 +1,144 @@
+'use server';
+
+/**
+ * @fileOverview A flow for turning a visual from history into a quiz.
+ *
+ * - generateQuiz - A function that writes a quiz about a visual and the text shown with it.
+ * - GenerateQuizInput - The input type for the generateQuiz function.
+ * - GenerateQuizOutput - The return type for the generateQuiz function.
+ * - Quiz - The generated quiz.
+ * - QuizQuestion - A single multiple-choice or short-answer question.
+ */
+
+import {ai, models} from '@/ai/genkit';
+import {flowFailure, flowResultSchema, runFlow, toFlowFailure} from '@/ai/flow-result';
+import {takeTokens} from '@/ai/rate-limit';
+import {safetyConfig} from '@/ai/safety';
+import {meterUsage, withUsageTracking} from '@/ai/usage';
+import {DomainSchema, getDomain} from '@/lib/domains';
+import {z} from 'genkit';
+
+const GenerateQuizInputSchema = z.object({
+  photoDataUri: z
+    .string()
+    .regex(/^data:image\/(?!svg)[\w.+-]+;base64,/, 'Expected a base64-encoded raster image data URI.')
+    .optional()
+    .describe("The visual to write the quiz about, as a data URI. Expected format: 'data:<mimetype>;base64,<encoded_data>'. Omitted for diagrams and SVG visuals, which are described by their source in the context."),
+  domain: DomainSchema,
+  context: z.string().describe('The description or explanation previously shown for the visual.'),
+  questionCount: z.number().int().min(1).max(10).optional().describe('How many questions to write. Defaults to 5.'),
+});
+export type GenerateQuizInput = z.infer<typeof GenerateQuizInputSchema>;
+
+const QuizQuestionSchema = z.object({
+  kind: z.enum(['multiple-choice', 'short-answer']),
+  question: z.string(),
+  options: z
+    .array(
+      z.object({
+        text: z.string(),
+        rationale: z.string().describe('Why this option is correct, or the misconception that makes it a plausible distractor.'),
+      })
+    )
+    .optional()
+    .describe('The answer options of a multiple-choice question. Omitted for short-answer questions.'),
+  correctOptionIndex: z.number().int().optional().describe('The index of the correct option of a multiple-choice question.'),
+  answerKey: z.string().describe('The model answer, with a one-sentence justification.'),
+  acceptableAnswers: z
+    .array(z.string())
+    .describe('Short key terms or phrases that a correct short answer must contain (any one of them). Empty for multiple-choice questions.'),
+});
+export type QuizQuestion = z.infer<typeof QuizQuestionSchema>;
+
+const QuizSchema = z.object({
+  title: z.string(),
+  questions: z.array(QuizQuestionSchema),
+});
+export type Quiz = z.infer<typeof QuizSchema>;
+
+const GenerateQuizOutputSchema = flowResultSchema(z.object({
+  quiz: QuizSchema,
+}));
+export type GenerateQuizOutput = z.infer<typeof GenerateQuizOutputSchema>;
+
+export async function generateQuiz(input: GenerateQuizInput): Promise<GenerateQuizOutput> {
+  return runFlow(generateQuizFlow, input);
+}
+
+const prompt = ai.definePrompt({
+  name: 'generateQuizPrompt',
+  input: {
+    schema: z.object({
+      photoDataUri: z.string().optional(),
+      domain: z.string(),
+      domainGuidance: z.string(),
+      context: z.string(),
+      questionCount: z.number(),
+    }),
+  },
+  output: {schema: QuizSchema},
+  prompt: `You are an expert {{{domain}}} teacher writing an assessment about an educational visual.
+Guidance for this domain: {{{domainGuidance}}}
+
+The learner has studied a visual together with this text:
+{{{context}}}
+
+Write a quiz of exactly {{questionCount}} questions that checks understanding of the concept shown, mixing multiple-choice and short-answer questions.
+- Multiple-choice questions have four options and exactly one correct option. Every distractor must reflect a common misconception, and its rationale must explain that misconception.
+- Short-answer questions have a concise model answer and a list of key terms a correct answer must mention.
+- Only ask about what the visual and text actually show.
+{{#if photoDataUri}}
+
+Image: {{media url=photoDataUri}}{{/if}}`,
+  config: safetyConfig,
+  use: [meterUsage(models.text)],
+});
+
+/** Drops questions the model returned in an unusable shape. */
+function isAnswerable(question: QuizQuestion): boolean {
+  if (question.kind === 'short-answer') {
+    // Answers are matched on letters and digits only, so a term without any would match every answer.
+    return question.acceptableAnswers.some(term => /[\p{L}\p{N}]/u.test(term));
+  }
+  const options = question.options ?? [];
+  return (
+    options.length >= 2 &&
+    question.correctOptionIndex !== undefined &&
+    question.correctOptionIndex >= 0 &&
+    question.correctOptionIndex < options.length
+  );
+}
+
+const generateQuizFlow = ai.defineFlow(
+  {
+    name: 'generateQuizFlow',
+    inputSchema: GenerateQuizInputSchema,
+    outputSchema: GenerateQuizOutputSchema,
+  },
+  withUsageTracking('generateQuiz', async ({questionCount = 5, ...input}, {context}) => {
+    const rateLimited = takeTokens(context, 'explanation');
+    if (rateLimited) {
+      return rateLimited;
+    }
+
+    try {
+      const {output, finishReason} = await prompt({
+        ...input,
+        domainGuidance: getDomain(input.domain).promptGuidance,
+        questionCount,
+      });
+      if (finishReason === 'blocked') {
+        return flowFailure('safety-blocked');
+      }
+
+      const questions = output?.questions.filter(isAnswerable) ?? [];
+      if (!output || questions.length === 0) {
+        return flowFailure('refused', 'Sorry, I was unable to write a quiz for this visual.');
+      }
+      return {status: 'success' as const, quiz: {title: output.title, questions}};
+    } catch (e: any) {
+      console.error('Error generating quiz:', e);
+      return toFlowFailure(e);
+    }
+  })
+);
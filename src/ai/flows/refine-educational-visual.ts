@@ -0,0 +1,97 @@
+'use server';
+
+/**
+ * @fileOverview A flow for editing a previously generated visual with a short instruction.
+ *
+ * - refineEducationalVisual - A function that applies an edit instruction to a visual.
+ * - RefineEducationalVisualInput - The input type for the refineEducationalVisual function.
+ * - RefineEducationalVisualOutput - The return type for the refineEducationalVisual function.
+ */
+
+import {ai, modelChains} from '@/ai/genkit';
+import {flowFailure, flowResultSchema, runFlow, toFlowFailure} from '@/ai/flow-result';
+import {withModelFallback} from '@/ai/model-fallback';
+import {takeTokens} from '@/ai/rate-limit';
+import {gateRequest} from '@/ai/request-classifier';
+import {safetyConfig} from '@/ai/safety';
+import {meterUsage, withUsageTracking} from '@/ai/usage';
+import {DomainSchema, getDomain} from '@/lib/domains';
+import {z} from 'genkit';
+
+const RefineEducationalVisualInputSchema = z.object({
+  image: z
+    .string()
+    .regex(/^data:image\/[\w.+-]+;base64,/, 'Expected a base64-encoded image data URI.')
+    .describe('The visual to refine, as a data URI.'),
+  prompt: z.string().describe('The concept the visual was originally generated for.'),
+  domain: DomainSchema,
+  instruction: z.string().min(1).describe('The edit to apply, e.g. "make the labels bigger" or "add ATP".'),
+});
+export type RefineEducationalVisualInput = z.infer<typeof RefineEducationalVisualInputSchema>;
+
+const RefineEducationalVisualOutputSchema = flowResultSchema(z.object({
+  image: z.string().describe('The refined image as a data URI.'),
+  description: z.string().describe('A two-line description of the refined visual.'),
+  model: z.string().describe('The model that drew the refined visual.'),
+}));
+export type RefineEducationalVisualOutput = z.infer<typeof RefineEducationalVisualOutputSchema>;
+
+export async function refineEducationalVisual(input: RefineEducationalVisualInput): Promise<RefineEducationalVisualOutput> {
+  return runFlow(refineEducationalVisualFlow, input);
+}
+
+const refineEducationalVisualFlow = ai.defineFlow(
+  {
+    name: 'refineEducationalVisualFlow',
+    inputSchema: RefineEducationalVisualInputSchema,
+    outputSchema: RefineEducationalVisualOutputSchema,
+  },
+  withUsageTracking('refineEducationalVisual', async (input, {context}) => {
+    const rateLimited = takeTokens(context, 'image');
+    if (rateLimited) {
+      return rateLimited;
+    }
+
+    const refusal = await gateRequest({prompt: input.prompt, instruction: input.instruction, domain: input.domain});
+    if (refusal) {
+      return refusal;
+    }
+
+    try {
+      const {result: response, model} = await withModelFallback(modelChains.image, model =>
+        ai.generate({
+          model,
+          prompt: [
+            {media: {url: input.image}},
+            {
+              text: `This is an educational ${input.domain} visual of "${input.prompt}".
+Guidance for this domain: ${getDomain(input.domain).promptGuidance}
+
+Edit the image as follows: ${input.instruction}
+Keep everything else about the image unchanged, including its layout, style and existing labels. Only make edits that keep the visual educational and accurate; if the instruction asks for anything else, do not produce an image.
+Also, provide a 2-line description for the edited visual.`,
+            },
+          ],
+          config: {
+            ...safetyConfig,
+            responseModalities: ['TEXT', 'IMAGE'],
+          },
+          use: [meterUsage(model)],
+        })
+      );
+
+      const {text: description, media, finishReason} = response;
+      if (finishReason === 'blocked') {
+        return flowFailure('safety-blocked');
+      }
+      if (!media || !media.url) {
+        return flowFailure('refused', 'Sorry, I was unable to apply that change to the visual.');
+      }
+
+      return {status: 'success' as const, image: media.url, description: description ?? '', model};
+    } catch (e: any) {
+      console.error('Error refining image:', e);
+      return toFlowFailure(e);
+    }
+  })
+);
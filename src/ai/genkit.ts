@@ -1,7 +1,74 @@
 import {genkit} from 'genkit';
+import type {GenkitPlugin} from 'genkit/plugin';
 import {googleAI} from '@genkit-ai/googleai';
+import {offline} from '@/ai/providers/offline';
+
+interface ModelProvider {
+  plugin: () => GenkitPlugin;
+  /** Models used for prompts that produce text or structured output, in order of preference. */
+  textModels: string[];
+  /** Models used for calls that must return an image, in order of preference. */
+  imageModels: string[];
+}
+
+const providers = {
+  googleai: {
+    plugin: () => googleAI(),
+    textModels: ['googleai/gemini-2.0-flash', 'googleai/gemini-2.0-flash-lite'],
+    imageModels: ['googleai/gemini-2.0-flash-preview-image-generation', 'googleai/gemini-2.5-flash-image-preview'],
+  },
+  offline: {
+    plugin: () => offline(),
+    textModels: ['offline/text'],
+    imageModels: ['offline/image'],
+  },
+} satisfies Record<string, ModelProvider>;
+
+export type ModelProviderName = keyof typeof providers;
+
+function selectProvider(): ModelProviderName {
+  const name = process.env.EDUVIS_MODEL_PROVIDER || 'googleai';
+  if (!(name in providers)) {
+    throw new Error(
+      `Unknown EDUVIS_MODEL_PROVIDER "${name}". Expected one of: ${Object.keys(providers).join(', ')}.`
+    );
+  }
+  return name as ModelProviderName;
+}
+
+export const providerName = selectProvider();
+const provider: ModelProvider = providers[providerName];
+
+/** Reads a comma-separated list of model names, e.g. "googleai/gemini-2.0-flash,googleai/gemini-2.0-flash-lite". */
+function modelChainFromEnv(name: string, fallback: string[]): string[] {
+  const chain = (process.env[name] ?? '').split(',').map(model => model.trim()).filter(Boolean);
+  return chain.length ? chain : fallback;
+}
+
+/**
+ * The models to try for each kind of call, first to last; see model-fallback.ts.
+ * `EDUVIS_TEXT_MODELS` and `EDUVIS_IMAGE_MODELS` replace the provider's defaults.
+ */
+export const modelChains = {
+  text: modelChainFromEnv('EDUVIS_TEXT_MODELS', provider.textModels),
+  image: modelChainFromEnv('EDUVIS_IMAGE_MODELS', provider.imageModels),
+};
+
+/** The models the flows should call, as chosen by `EDUVIS_MODEL_PROVIDER`: the first of each chain. */
+export const models = {
+  text: modelChains.text[0],
+  image: modelChains.image[0],
+};
+
+/**
+ * Where the versioned prompt files are read from, relative to the working
+ * directory. `EDUVIS_PROMPT_DIR` points at another copy, e.g. to evaluate an
+ * older version; see prompt-files.ts.
+ */
+export const promptDir = process.env.EDUVIS_PROMPT_DIR || './prompts';
 
 export const ai = genkit({
-  plugins: [googleAI()],
-  model: 'googleai/gemini-2.0-flash',
+  plugins: [provider.plugin()],
+  model: models.text,
+  promptDir,
 });
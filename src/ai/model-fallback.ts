@@ -0,0 +1,84 @@
+/**
+ * @fileOverview Retries with exponential backoff and an ordered model fallback for model calls.
+ *
+ * - withModelFallback - Runs a call against each model of a chain in turn until one serves it.
+ * - isTransientError - Whether an error is worth retrying: an overloaded or unavailable model, a timeout or an exhausted quota.
+ * - ServedResult - A call's result together with the model that served it.
+ * - FallbackOptions - Options for withModelFallback.
+ *
+ * Transient errors are retried on the same model `EDUVIS_MODEL_RETRIES` times,
+ * 2 by default, waiting `EDUVIS_MODEL_RETRY_BASE_MS` (500 by default) before
+ * the first retry and twice as long before each next one. Then the next model
+ * of the chain is tried. Any other error, such as a safety block, invalid
+ * input, a malformed response or a bug, is thrown at once.
+ */
+
+import {numberFromEnv} from '@/ai/env';
+import {GenkitError} from 'genkit';
+
+const retryPolicy = {
+  retries: Math.floor(numberFromEnv('EDUVIS_MODEL_RETRIES', 2)),
+  baseDelayMs: numberFromEnv('EDUVIS_MODEL_RETRY_BASE_MS', 500),
+  maxDelayMs: 10_000,
+};
+
+export interface ServedResult<T> {
+  result: T;
+  /** The model that served the call, which is not the first of the chain if it fell back. */
+  model: string;
+}
+
+export interface FallbackOptions {
+  /** Whether the failed call already delivered output, such as streamed text, that another attempt would repeat. */
+  hasOutput?: () => boolean;
+}
+
+const transientStatuses = new Set(['UNAVAILABLE', 'RESOURCE_EXHAUSTED', 'DEADLINE_EXCEEDED']);
+const transientHttpStatuses = new Set([429, 503]);
+
+/**
+ * Genkit reports its own errors with a gRPC-style status name, while the
+ * Google AI SDK throws fetch errors carrying the HTTP status code.
+ */
+export function isTransientError(e: unknown): boolean {
+  if (e instanceof GenkitError) {
+    return transientStatuses.has(e.status);
+  }
+  const httpStatus = (e as {status?: unknown} | null)?.status;
+  return typeof httpStatus === 'number' && transientHttpStatuses.has(httpStatus);
+}
+
+/** The wait before retry number `retry`, with jitter so that concurrent callers spread out. */
+function backoffMs(retry: number): number {
+  const delay = Math.min(retryPolicy.maxDelayMs, retryPolicy.baseDelayMs * 2 ** (retry - 1));
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+/**
+ * Calls `call` with each model of `chain` in turn, retrying transient errors,
+ * and returns the first result. When every model fails, the last error is thrown.
+ */
+export async function withModelFallback<T>(
+  chain: string[],
+  call: (model: string) => Promise<T>,
+  {hasOutput = () => false}: FallbackOptions = {}
+): Promise<ServedResult<T>> {
+  let lastError: unknown = new Error('No models to call.');
+  for (const model of chain) {
+    for (let attempt = 0; attempt <= retryPolicy.retries; attempt++) {
+      if (attempt > 0) {
+        await new Promise(resolve => setTimeout(resolve, backoffMs(attempt)));
+      }
+      try {
+        return {result: await call(model), model};
+      } catch (e: any) {
+        if (!isTransientError(e) || hasOutput()) {
+          throw e;
+        }
+        lastError = e;
+        console.warn(`Model ${model} failed on attempt ${attempt + 1}:`, e?.message ?? e);
+      }
+    }
+  }
+  throw lastError;
+}
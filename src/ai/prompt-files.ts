@@ -0,0 +1,41 @@
+/**
+ * @fileOverview Loads versioned prompt files from prompts/ for a domain.
+ *
+ * - loadDomainPrompt - Returns a prompt in the domain's variant, if it has one, together with its version.
+ *
+ * Each prompt lives in prompts/<name>.prompt, with per-domain variants in
+ * prompts/<name>.<variant>.prompt selected by the domain's `promptVariant`.
+ * Every file must declare a `version` in its front matter, which flows record
+ * on their output so old results can be traced to the wording that made them.
+ */
+
+import {ai, promptDir} from '@/ai/genkit';
+import {Domain, getDomain} from '@/lib/domains';
+import {PromptVersion} from '@/lib/prompt-version';
+import type {ExecutablePrompt, z} from 'genkit';
+
+function registryKey(name: string, variant?: string): string {
+  return `/prompt/${variant ? `${name}.${variant}` : name}`;
+}
+
+export async function loadDomainPrompt<I extends z.ZodTypeAny>(
+  name: string,
+  domain: Domain
+): Promise<{prompt: ExecutablePrompt<z.infer<I>>; promptVersion: PromptVersion}> {
+  const preferred = getDomain(domain).promptVariant;
+  const variantAction = preferred ? await ai.registry.lookupAction(registryKey(name, preferred)) : undefined;
+  const variant = variantAction ? preferred : undefined;
+  const action = variantAction ?? (await ai.registry.lookupAction(registryKey(name)));
+  if (!action) {
+    throw new Error(`Prompt file ${promptDir}/${name}.prompt not found.`);
+  }
+
+  const version = action.__action.metadata?.prompt?.version;
+  if (version === undefined) {
+    throw new Error(`Prompt file for ${name}${variant ? ` (variant ${variant})` : ''} does not declare a version.`);
+  }
+  return {
+    prompt: ai.prompt<I>(name, {variant}),
+    promptVersion: {name, variant, version: String(version)},
+  };
+}
@@ -0,0 +1,215 @@
+/**
+ * @fileOverview A Genkit plugin with deterministic fake models for running the flows offline.
+ *
+ * - offline - The plugin, registering `offline/text` and `offline/image`.
+ * - offlineFixture - Registers the value given for an output schema instead of a synthesized one.
+ * - placeholderMarkup - The SVG markup of the placeholder images.
+ *
+ * The same request always produces the same response. Structured output
+ * requests are answered with a value synthesized from the requested JSON
+ * schema, and image requests with a generated SVG placeholder. Flows whose
+ * output other code parses or acts on, such as diagram source or expressions,
+ * register a valid fixture for their output schema next to it, so offline
+ * requests are always served.
+ */
+
+import type {GenerateRequest, GenerateResponseData, MessageData, z} from 'genkit';
+import {genkitPlugin} from 'genkit/plugin';
+import {toJsonSchema} from 'genkit/schema';
+
+type JsonSchema = Record<string, unknown>;
+
+function isSchema(value: unknown): value is JsonSchema {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function schemaList(value: unknown): JsonSchema[] {
+  return Array.isArray(value) ? value.filter(isSchema) : [];
+}
+
+function numberKeyword(value: unknown): number | undefined {
+  return typeof value === 'number' ? value : undefined;
+}
+
+/** FNV-1a, so responses are stable across runs and machines. */
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function requestText(messages: MessageData[]): string {
+  return messages
+    .flatMap(message => message.content)
+    .map(part => part.text ?? '')
+    .join('\n')
+    .trim();
+}
+
+function lastUserText(messages: MessageData[]): string {
+  const user = [...messages].reverse().find(message => message.role === 'user');
+  return user ? requestText([user]) : '';
+}
+
+function summarize(text: string, maxLength: number): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > maxLength ? `${singleLine.slice(0, maxLength - 1)}…` : singleLine;
+}
+
+function resolveRef(root: JsonSchema, ref: string): JsonSchema {
+  const target = ref
+    .replace(/^#\/?/, '')
+    .split('/')
+    .filter(Boolean)
+    .reduce<unknown>((node, key) => (isSchema(node) ? node[key.replace(/~1/g, '/').replace(/~0/g, '~')] : undefined), root);
+  return isSchema(target) ? target : {};
+}
+
+/** Registered fixtures, keyed by the JSON of their schema. */
+const fixtures = new Map<string, (seed: number) => unknown>();
+
+function schemaKey(schema: JsonSchema): string {
+  const {$schema, ...rest} = schema;
+  return JSON.stringify(rest);
+}
+
+/**
+ * Registers the value the offline models give wherever `schema` is requested,
+ * in place of one synthesized from it. Schemas are matched by their JSON, so
+ * the value is also used where `schema` is nested in a larger one.
+ */
+export function offlineFixture<T extends z.ZodTypeAny>(schema: T, fixture: (seed: number) => z.infer<T>): void {
+  fixtures.set(schemaKey(toJsonSchema({schema})), fixture);
+}
+
+/** Builds the simplest value that satisfies `schema`, varying strings by `seed`. */
+function synthesize(schema: JsonSchema, root: JsonSchema, seed: number, name: string): unknown {
+  if (typeof schema.$ref === 'string') {
+    return synthesize(resolveRef(root, schema.$ref), root, seed, name);
+  }
+  const fixture = fixtures.get(schemaKey(schema));
+  if (fixture) {
+    return fixture(seed);
+  }
+  if (schema.const !== undefined) {
+    return schema.const;
+  }
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    return schema.enum[seed % schema.enum.length];
+  }
+  const [variant] = schemaList(schema.anyOf ?? schema.oneOf);
+  if (variant) {
+    return synthesize(variant, root, seed, name);
+  }
+  if (Array.isArray(schema.allOf)) {
+    return Object.assign({}, ...schemaList(schema.allOf).map(part => synthesize(part, root, seed, name)));
+  }
+
+  const type = Array.isArray(schema.type) ? schema.type.find(t => t !== 'null') : schema.type;
+  switch (type) {
+    case 'object': {
+      const result: Record<string, unknown> = {};
+      for (const [key, property] of Object.entries(isSchema(schema.properties) ? schema.properties : {})) {
+        result[key] = synthesize(isSchema(property) ? property : {}, root, seed, key);
+      }
+      return result;
+    }
+    case 'array': {
+      const count = Math.max(numberKeyword(schema.minItems) ?? 0, Math.min(numberKeyword(schema.maxItems) ?? 2, 2));
+      const items = isSchema(schema.items) ? schema.items : {};
+      return Array.from({length: count}, (_, i) => synthesize(items, root, seed + i, name));
+    }
+    case 'integer':
+      return numberKeyword(schema.minimum) ?? numberKeyword(schema.exclusiveMinimum) ?? 0;
+    case 'number':
+      // A fraction in [0.25, 0.75), which is also a usable coordinate or ratio.
+      return numberKeyword(schema.minimum) ?? numberKeyword(schema.exclusiveMinimum) ?? 0.25 + (seed % 50) / 100;
+    case 'boolean':
+      return false;
+    case 'null':
+      return null;
+    default: {
+      const text = `Offline ${name} ${seed.toString(16)}`;
+      const maxLength = numberKeyword(schema.maxLength);
+      return maxLength ? text.slice(0, maxLength) : text;
+    }
+  }
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&'"]/g, c => `&#${c.charCodeAt(0)};`);
+}
+
+/** A placeholder image captioned with `prompt` and tinted by `seed`. */
+export function placeholderMarkup(prompt: string, seed: number): string {
+  const hue = seed % 360;
+  const caption = escapeXml(summarize(prompt, 60) || 'Offline visual');
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="512" height="512" viewBox="0 0 512 512">
+<rect width="512" height="512" fill="hsl(${hue}, 45%, 92%)"/>
+<circle cx="256" cy="220" r="120" fill="none" stroke="hsl(${hue}, 55%, 40%)" stroke-width="8"/>
+<text x="256" y="228" font-family="sans-serif" font-size="28" text-anchor="middle" fill="hsl(${hue}, 55%, 30%)">Offline preview</text>
+<text x="256" y="420" font-family="sans-serif" font-size="16" text-anchor="middle" fill="#333">${caption}</text>
+</svg>`;
+}
+
+function placeholderSvg(prompt: string, seed: number): string {
+  return `data:image/svg+xml;base64,${Buffer.from(placeholderMarkup(prompt, seed)).toString('base64')}`;
+}
+
+function textResponse(request: GenerateRequest): string {
+  const text = requestText(request.messages);
+  const seed = hash(text);
+  if (request.output?.format === 'json' && request.output.schema) {
+    const schema = request.output.schema;
+    return JSON.stringify(synthesize(schema, schema, seed, 'value'));
+  }
+  return `Offline response ${seed.toString(16)}: ${summarize(lastUserText(request.messages), 200)}`;
+}
+
+export const offline = () =>
+  genkitPlugin('offline', async ai => {
+    ai.defineModel(
+      {
+        name: 'offline/text',
+        label: 'Offline - Deterministic text',
+        supports: {multiturn: true, media: true, systemRole: true, output: ['text', 'json'], constrained: 'all'},
+      },
+      async (request, streamingCallback): Promise<GenerateResponseData> => {
+        const text = textResponse(request);
+        if (streamingCallback) {
+          for (const word of text.match(/\S+\s*/g) ?? []) {
+            streamingCallback({index: 0, content: [{text: word}]});
+          }
+        }
+        return {
+          message: {role: 'model', content: [{text}]},
+          finishReason: 'stop',
+        };
+      }
+    );
+
+    ai.defineModel(
+      {
+        name: 'offline/image',
+        label: 'Offline - Placeholder images',
+        supports: {multiturn: true, media: true, output: ['text', 'media']},
+      },
+      async (request): Promise<GenerateResponseData> => {
+        const prompt = lastUserText(request.messages);
+        const seed = hash(requestText(request.messages));
+        return {
+          message: {
+            role: 'model',
+            content: [
+              {text: `An offline placeholder for: ${summarize(prompt, 120)}\nNo model was called to produce this image.`},
+              {media: {url: placeholderSvg(prompt, seed), contentType: 'image/svg+xml'}},
+            ],
+          },
+          finishReason: 'stop',
+        };
+      }
+    );
+  });
@@ -0,0 +1,78 @@
+import assert from 'node:assert/strict';
+import {afterEach, beforeEach, describe, it, mock} from 'node:test';
+import {rateLimitContext, takeTokens} from '@/ai/rate-limit';
+
+let now = 0;
+let clients = 0;
+
+/** A context for a client no other test has charged. */
+function newClient() {
+  clients++;
+  return rateLimitContext({userId: `user-${clients}`, ip: `203.0.113.${clients}`});
+}
+
+describe('takeTokens', () => {
+  beforeEach(() => {
+    now = 1_000_000;
+    mock.method(Date, 'now', () => now);
+  });
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('does not limit calls without a client', () => {
+    for (let i = 0; i < 100; i++) {
+      assert.equal(takeTokens({}, 'image'), null);
+    }
+  });
+
+  it('fails with a quota failure saying when to retry once the budget is spent', () => {
+    const context = newClient();
+    // The per-user image bucket holds 8 tokens.
+    assert.equal(takeTokens(context, 'image', 8), null);
+
+    const failure = takeTokens(context, 'image');
+    assert.equal(failure?.status, 'quota');
+    assert.equal(failure?.retryable, true);
+    // One token refills at 4 per minute.
+    assert.equal(failure?.retryAfterSeconds, 15);
+    assert.match(failure?.message ?? '', /Try again in 15 seconds/);
+  });
+
+  it('refills the bucket over time', () => {
+    const context = newClient();
+    assert.equal(takeTokens(context, 'image', 8), null);
+    now += 14_000;
+    assert.equal(takeTokens(context, 'image')?.status, 'quota');
+    now += 1_000;
+    assert.equal(takeTokens(context, 'image'), null);
+    assert.equal(takeTokens(context, 'image')?.retryAfterSeconds, 15);
+
+    now += 10 * 60_000;
+    assert.equal(takeTokens(context, 'image', 8), null);
+  });
+
+  it('spends nothing when the request cannot be afforded', () => {
+    const context = newClient();
+    assert.equal(takeTokens(context, 'image', 6), null);
+    assert.equal(takeTokens(context, 'image', 3)?.status, 'quota');
+    assert.equal(takeTokens(context, 'image', 2), null);
+  });
+
+  it('keeps separate image and explanation budgets', () => {
+    const context = newClient();
+    assert.equal(takeTokens(context, 'image', 8), null);
+    assert.equal(takeTokens(context, 'image')?.status, 'quota');
+    assert.equal(takeTokens(context, 'explanation', 20), null);
+    assert.equal(takeTokens(context, 'explanation')?.status, 'quota');
+  });
+
+  it('charges the shared IP address bucket for every user behind it', () => {
+    const ip = '198.51.100.7';
+    // The per-IP image bucket holds 120 tokens, spent here 8 per user.
+    for (let user = 0; user < 15; user++) {
+      assert.equal(takeTokens(rateLimitContext({userId: `classmate-${user}`, ip}), 'image', 8), null);
+    }
+    assert.equal(takeTokens(rateLimitContext({userId: 'late-classmate', ip}), 'image')?.status, 'quota');
+  });
+});
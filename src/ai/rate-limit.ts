@@ -0,0 +1,184 @@
+/**
+ * @fileOverview Token-bucket rate limits for the flows that call paid models.
+ *
+ * - clientFromHeaders - Identifies the client of an HTTP request by user cookie and IP address.
+ * - rateLimitContext - Builds the flow context that carries a client's identity.
+ * - rateLimitClient - Reads the client back from a flow context.
+ * - currentRateLimitContext - The flow context for the request a server action is handling.
+ * - takeTokens - Spends tokens from a budget, or returns a quota failure saying when to try again.
+ * - RateLimitClient - The identity a budget is charged to.
+ * - RateLimitBudget - The budgets that can be charged.
+ *
+ * Every request is charged to both the user's bucket and their IP address's
+ * bucket. The per-user budget is small; the per-IP budget is large because a
+ * whole classroom often shares one address, and it is the hard limit for
+ * clients that drop the user cookie. Calls without a client in their context,
+ * such as from the Genkit developer UI, are not limited.
+ *
+ * The user is only known from a cookie signed by the middleware, see
+ * user-cookie.ts. The address is the `x-forwarded-for` entry appended by the
+ * nearest of `EDUVIS_TRUSTED_PROXY_HOPS` proxies (1 by default), since earlier
+ * entries are written by the client; `EDUVIS_CLIENT_IP_HEADER` names a header
+ * the platform sets instead. Requests without an address share one bucket.
+ */
+
+import {numberFromEnv} from '@/ai/env';
+import {FlowFailure, flowFailure} from '@/ai/flow-result';
+import {userCookieName, verifyUserCookie} from '@/lib/user-cookie';
+import type {ActionContext} from 'genkit';
+import {headers} from 'next/headers';
+
+export interface RateLimitClient {
+  userId?: string;
+  ip?: string;
+}
+
+interface Bucket {
+  /** Tokens available; refills continuously up to `capacity`. */
+  capacity: number;
+  refillPerMinute: number;
+}
+
+const budgets = {
+  /** One token per image drawn: candidates, sequence frames and refinements. */
+  image: {
+    user: {capacity: 8, refillPerMinute: 4},
+    ip: {capacity: 120, refillPerMinute: 60},
+  },
+  /** One token per text request: explanations, chat, quizzes, labels, diagrams, plots and structures. */
+  explanation: {
+    user: {capacity: 20, refillPerMinute: 10},
+    ip: {capacity: 300, refillPerMinute: 150},
+  },
+} satisfies Record<string, {user: Bucket; ip: Bucket}>;
+
+export type RateLimitBudget = keyof typeof budgets;
+
+interface BucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Kept on globalThis so that every server bundle shares the same buckets.
+const globalBuckets = globalThis as typeof globalThis & {eduvisRateLimitBuckets?: Map<string, BucketState>};
+const buckets = (globalBuckets.eduvisRateLimitBuckets ??= new Map());
+
+function readCookie(cookieHeader: string | undefined, name: string): string | undefined {
+  for (const pair of cookieHeader?.split(';') ?? []) {
+    const [key, ...value] = pair.trim().split('=');
+    if (key === name) {
+      return decodeURIComponent(value.join('='));
+    }
+  }
+  return undefined;
+}
+
+const trustedProxyHops = Math.max(1, Math.floor(numberFromEnv('EDUVIS_TRUSTED_PROXY_HOPS', 1)));
+const clientIpHeader = process.env.EDUVIS_CLIENT_IP_HEADER?.toLowerCase();
+
+function clientIp(get: (name: string) => string | null | undefined): string | undefined {
+  if (clientIpHeader) {
+    return get(clientIpHeader)?.trim() || undefined;
+  }
+  const hops = (get('x-forwarded-for') ?? '').split(',').map(hop => hop.trim()).filter(Boolean);
+  return hops.length >= trustedProxyHops ? hops[hops.length - trustedProxyHops] : undefined;
+}
+
+/** Reads the client's identity from request headers, trusting only what the middleware and proxies wrote. */
+export async function clientFromHeaders(get: (name: string) => string | null | undefined): Promise<RateLimitClient> {
+  return {
+    userId: await verifyUserCookie(readCookie(get('cookie') ?? undefined, userCookieName)),
+    ip: clientIp(get),
+  };
+}
+
+export function rateLimitContext(client: RateLimitClient): ActionContext {
+  return {rateLimitClient: client};
+}
+
+/** The client a flow's context carries, if the call came from the app. */
+export function rateLimitClient(context: ActionContext | undefined): RateLimitClient | undefined {
+  return context?.rateLimitClient as RateLimitClient | undefined;
+}
+
+/**
+ * The context for the request being handled, or an empty context when called
+ * outside one, e.g. from a script.
+ */
+export async function currentRateLimitContext(): Promise<ActionContext> {
+  let requestHeaders: Headers;
+  try {
+    requestHeaders = await headers();
+  } catch {
+    return {};
+  }
+  return rateLimitContext(await clientFromHeaders(name => requestHeaders.get(name)));
+}
+
+/** Drops buckets that have refilled completely, which is the state a new bucket starts in. */
+function pruneFullBuckets(now: number) {
+  for (const [key, state] of buckets) {
+    const [budget, kind] = key.split(':') as [RateLimitBudget, 'user' | 'ip'];
+    const bucket = budgets[budget][kind];
+    if (state.tokens + ((now - state.updatedAt) / 60_000) * bucket.refillPerMinute >= bucket.capacity) {
+      buckets.delete(key);
+    }
+  }
+}
+
+const maxTrackedBuckets = 10_000;
+
+function refill(key: string, bucket: Bucket, now: number): BucketState {
+  const state = buckets.get(key) ?? {tokens: bucket.capacity, updatedAt: now};
+  const tokens = Math.min(bucket.capacity, state.tokens + ((now - state.updatedAt) / 60_000) * bucket.refillPerMinute);
+  return {tokens, updatedAt: now};
+}
+
+/**
+ * Spends `cost` tokens of `budget` from every bucket the client in `context`
+ * is charged to. Nothing is spent unless every bucket can afford it.
+ *
+ * Flows call this before their first model call, and only for work that is
+ * not served from a result cache: one image token per image they draw, one
+ * explanation token per text request.
+ */
+export function takeTokens(context: ActionContext | undefined, budget: RateLimitBudget, cost = 1): FlowFailure | null {
+  const client = rateLimitClient(context);
+  if (!client) {
+    return null;
+  }
+
+  const now = Date.now();
+  if (buckets.size > maxTrackedBuckets) {
+    pruneFullBuckets(now);
+  }
+  const charged = (['user', 'ip'] as const)
+    .map(kind => ({kind, id: kind === 'user' ? client.userId : (client.ip ?? 'unknown')}))
+    .filter((entry): entry is {kind: 'user' | 'ip'; id: string} => !!entry.id)
+    .map(({kind, id}) => {
+      const key = `${budget}:${kind}:${id}`;
+      const bucket = budgets[budget][kind];
+      return {key, bucket, state: refill(key, bucket, now)};
+    });
+
+  const waitSeconds = Math.max(
+    0,
+    ...charged.map(({bucket, state}) =>
+      state.tokens >= cost ? 0 : Math.ceil(((Math.min(cost, bucket.capacity) - state.tokens) / bucket.refillPerMinute) * 60)
+    )
+  );
+  if (waitSeconds > 0) {
+    for (const {key, state} of charged) {
+      buckets.set(key, state);
+    }
+    return {
+      ...flowFailure('quota', `You're sending requests too quickly. Try again in ${waitSeconds} ${waitSeconds === 1 ? 'second' : 'seconds'}.`),
+      retryAfterSeconds: waitSeconds,
+    };
+  }
+
+  for (const {key, state} of charged) {
+    buckets.set(key, {tokens: state.tokens - cost, updatedAt: now});
+  }
+  return null;
+}
@@ -0,0 +1,70 @@
+import assert from 'node:assert/strict';
+import {mkdtempSync} from 'node:fs';
+import {tmpdir} from 'node:os';
+import {join} from 'node:path';
+import {before, describe, it} from 'node:test';
+
+type ResultCacheModule = typeof import('@/ai/result-cache');
+
+let resultCache: ResultCacheModule;
+
+before(async () => {
+  // The limits are read when the module loads.
+  process.env.EDUVIS_CACHE_MAX_ENTRIES = '2';
+  process.env.EDUVIS_MODEL_PROVIDER = 'offline';
+  process.env.EDUVIS_USAGE_LOG = join(mkdtempSync(join(tmpdir(), 'eduvis-')), 'usage.jsonl');
+  resultCache = await import('@/ai/result-cache');
+});
+
+/** The counters of the cache called `name`, without its size in bytes. */
+function counts(name: string) {
+  const {bytes, ...rest} = resultCache.resultCacheMetrics().find(cache => cache.name === name) ?? {};
+  return rest;
+}
+
+describe('createResultCache', () => {
+  it('evicts the least recently used entry first', () => {
+    const cache = resultCache.createResultCache<string>('eviction');
+    cache.set('a', 'first');
+    cache.set('b', 'second');
+    assert.equal(cache.get('a'), 'first');
+    cache.set('c', 'third');
+
+    assert.equal(cache.get('b'), undefined);
+    assert.equal(cache.get('a'), 'first');
+    assert.equal(cache.get('c'), 'third');
+    assert.deepEqual(counts('eviction'), {name: 'eviction', hits: 3, misses: 1, bypasses: 0, evictions: 1, entries: 2});
+  });
+
+  it('returns the same cache for the same name', () => {
+    const cache = resultCache.createResultCache<string>('shared');
+    cache.set('a', 'value');
+    assert.equal(resultCache.createResultCache<string>('shared').get('a'), 'value');
+  });
+});
+
+describe('regenerate', () => {
+  it('skips the cache, counts a bypass and replaces the entry', async () => {
+    const {explainVisualConcept} = await import('@/ai/flows/explain-visual-concept');
+    const input = {photoDataUri: 'data:image/png;base64,iVBORw0KGgo=', domain: 'Biology' as const};
+
+    const first = await explainVisualConcept(input);
+    assert.ok(first.status === 'success');
+    assert.equal(first.cached, false);
+    const cached = await explainVisualConcept(input);
+    assert.ok(cached.status === 'success');
+    assert.equal(cached.cached, true);
+
+    const regenerated = await explainVisualConcept({...input, regenerate: true});
+    assert.ok(regenerated.status === 'success');
+    assert.equal(regenerated.cached, false);
+    assert.deepEqual(counts('explainVisualConcept'), {
+      name: 'explainVisualConcept',
+      hits: 1,
+      misses: 1,
+      bypasses: 1,
+      evictions: 0,
+      entries: 1,
+    });
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * @fileOverview An in-memory cache for flow results that are expensive to regenerate.
+ *
+ * - createResultCache - Returns a named cache with a TTL and entry and size limits.
+ * - resultCacheKey - Hashes the parts of a request that determine its result into a cache key.
+ * - normalizePrompt - Normalizes a learner's prompt so trivially different spellings share an entry.
+ * - hashContent - Hashes large inputs, such as uploaded images, for use in a key.
+ * - resultCacheMetrics - Returns the hit/miss metrics of every cache.
+ * - ResultCacheMetrics - The metrics of one cache.
+ *
+ * Limits are read from `EDUVIS_CACHE_TTL_SECONDS`, `EDUVIS_CACHE_MAX_ENTRIES`
+ * and `EDUVIS_CACHE_MAX_MB` and apply to each cache. The least recently used
+ * entries are evicted first. Each server instance has its own caches.
+ */
+
+import {createHash} from 'crypto';
+import {numberFromEnv} from '@/ai/env';
+
+export interface ResultCacheMetrics {
+  name: string;
+  hits: number;
+  misses: number;
+  /** Lookups skipped because the caller asked to regenerate. */
+  bypasses: number;
+  evictions: number;
+  entries: number;
+  bytes: number;
+}
+
+interface CacheEntry<T> {
+  value: T;
+  bytes: number;
+  expiresAt: number;
+}
+
+export interface ResultCache<T> {
+  get(key: string): T | undefined;
+  set(key: string, value: T): void;
+  /** Records a lookup that was skipped because the caller asked to regenerate. */
+  bypass(): void;
+}
+
+const limits = {
+  ttlMs: numberFromEnv('EDUVIS_CACHE_TTL_SECONDS', 60 * 60) * 1000,
+  maxEntries: numberFromEnv('EDUVIS_CACHE_MAX_ENTRIES', 200),
+  maxBytes: numberFromEnv('EDUVIS_CACHE_MAX_MB', 64) * 1024 * 1024,
+};
+
+interface RegisteredCache {
+  cache: ResultCache<unknown>;
+  metrics: () => ResultCacheMetrics;
+}
+
+// Kept on globalThis so that every server bundle, and every hot reload in
+// development, shares one set of caches.
+const globalCaches = globalThis as typeof globalThis & {eduvisResultCaches?: Map<string, RegisteredCache>};
+const registry = (globalCaches.eduvisResultCaches ??= new Map());
+
+/** Returns the cache called `name`, creating it on first use. */
+export function createResultCache<T>(name: string): ResultCache<T> {
+  const existing = registry.get(name);
+  if (existing) {
+    return existing.cache as ResultCache<T>;
+  }
+
+  // A Map iterates in insertion order, so re-inserting on every hit keeps the
+  // least recently used entry first.
+  const entries = new Map<string, CacheEntry<T>>();
+  const metrics = {hits: 0, misses: 0, bypasses: 0, evictions: 0, bytes: 0};
+
+  function remove(key: string) {
+    const entry = entries.get(key);
+    if (entry) {
+      entries.delete(key);
+      metrics.bytes -= entry.bytes;
+    }
+  }
+
+  function evictOldest() {
+    const oldest = entries.keys().next().value;
+    if (oldest !== undefined) {
+      remove(oldest);
+      metrics.evictions++;
+    }
+  }
+
+  const cache: ResultCache<T> = {
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry || entry.expiresAt <= Date.now()) {
+        remove(key);
+        metrics.misses++;
+        return undefined;
+      }
+      entries.delete(key);
+      entries.set(key, entry);
+      metrics.hits++;
+      return entry.value;
+    },
+    set(key, value) {
+      // Results are mostly data URIs, so their JSON length approximates their size.
+      const bytes = JSON.stringify(value).length;
+      remove(key);
+      if (limits.ttlMs === 0 || limits.maxEntries === 0 || bytes > limits.maxBytes) {
+        return;
+      }
+      while (entries.size >= limits.maxEntries || metrics.bytes + bytes > limits.maxBytes) {
+        evictOldest();
+      }
+      entries.set(key, {value, bytes, expiresAt: Date.now() + limits.ttlMs});
+      metrics.bytes += bytes;
+    },
+    bypass() {
+      metrics.bypasses++;
+    },
+  };
+  registry.set(name, {cache: cache as ResultCache<unknown>, metrics: () => ({name, ...metrics, entries: entries.size})});
+  return cache;
+}
+
+export function normalizePrompt(prompt: string): string {
+  return prompt.normalize('NFKC').trim().replace(/\s+/g, ' ').replace(/[.!?]+$/, '').toLowerCase();
+}
+
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/** Hashes `parts` into a key; properties that are undefined are ignored, like in JSON. */
+export function resultCacheKey(parts: Record<string, unknown>): string {
+  const sorted = Object.keys(parts)
+    .sort()
+    .map(key => [key, parts[key]]);
+  return hashContent(JSON.stringify(sorted.filter(([, value]) => value !== undefined)));
+}
+
+export function resultCacheMetrics(): ResultCacheMetrics[] {
+  return [...registry.values()].map(({metrics}) => metrics());
+}
@@ -0,0 +1,75 @@
+/**
+ * @fileOverview Safety policy profiles applied to every model call.
+ *
+ * - safetyProfile - The profile chosen by `EDUVIS_SAFETY_PROFILE`; defaults to classroom-strict.
+ * - safetyProfileName - The name of that profile.
+ * - safetyConfig - Model config carrying the profile's safety settings, to spread into every prompt and generate call.
+ * - SafetyProfileName - The names of the available profiles.
+ */
+
+type HarmCategory =
+  | 'HARM_CATEGORY_HATE_SPEECH'
+  | 'HARM_CATEGORY_DANGEROUS_CONTENT'
+  | 'HARM_CATEGORY_HARASSMENT'
+  | 'HARM_CATEGORY_SEXUALLY_EXPLICIT';
+
+type HarmBlockThreshold = 'BLOCK_LOW_AND_ABOVE' | 'BLOCK_MEDIUM_AND_ABOVE' | 'BLOCK_ONLY_HIGH';
+
+interface SafetyProfile {
+  label: string;
+  thresholds: Record<HarmCategory, HarmBlockThreshold>;
+  /** Added to the request classifier's prompt to say what this deployment considers unsafe. */
+  requestGuidance: string;
+}
+
+const profiles = {
+  'classroom-strict': {
+    label: 'Classroom',
+    thresholds: {
+      HARM_CATEGORY_HATE_SPEECH: 'BLOCK_LOW_AND_ABOVE',
+      HARM_CATEGORY_DANGEROUS_CONTENT: 'BLOCK_LOW_AND_ABOVE',
+      HARM_CATEGORY_HARASSMENT: 'BLOCK_LOW_AND_ABOVE',
+      HARM_CATEGORY_SEXUALLY_EXPLICIT: 'BLOCK_LOW_AND_ABOVE',
+    },
+    requestGuidance: 'The tool is used by school children in a classroom. Treat anything a teacher would not show to a class of children as unsafe, including graphic injuries, drug use and weapons.',
+  },
+  'university': {
+    label: 'University',
+    thresholds: {
+      HARM_CATEGORY_HATE_SPEECH: 'BLOCK_MEDIUM_AND_ABOVE',
+      HARM_CATEGORY_DANGEROUS_CONTENT: 'BLOCK_MEDIUM_AND_ABOVE',
+      HARM_CATEGORY_HARASSMENT: 'BLOCK_MEDIUM_AND_ABOVE',
+      HARM_CATEGORY_SEXUALLY_EXPLICIT: 'BLOCK_MEDIUM_AND_ABOVE',
+    },
+    requestGuidance: 'The tool is used by adult university students. Clinical, anatomical and historical subjects are educational when treated academically.',
+  },
+  'research': {
+    label: 'Research',
+    thresholds: {
+      HARM_CATEGORY_HATE_SPEECH: 'BLOCK_ONLY_HIGH',
+      HARM_CATEGORY_DANGEROUS_CONTENT: 'BLOCK_ONLY_HIGH',
+      HARM_CATEGORY_HARASSMENT: 'BLOCK_ONLY_HIGH',
+      HARM_CATEGORY_SEXUALLY_EXPLICIT: 'BLOCK_MEDIUM_AND_ABOVE',
+    },
+    requestGuidance: 'The tool is used by professional researchers. Technical detail about hazardous materials, pathogens or pharmacology is educational unless it is a practical recipe for causing harm.',
+  },
+} satisfies Record<string, SafetyProfile>;
+
+export type SafetyProfileName = keyof typeof profiles;
+
+function selectProfile(): SafetyProfileName {
+  const name = process.env.EDUVIS_SAFETY_PROFILE || 'classroom-strict';
+  if (!(name in profiles)) {
+    throw new Error(
+      `Unknown EDUVIS_SAFETY_PROFILE "${name}". Expected one of: ${Object.keys(profiles).join(', ')}.`
+    );
+  }
+  return name as SafetyProfileName;
+}
+
+export const safetyProfileName = selectProfile();
+export const safetyProfile: SafetyProfile = profiles[safetyProfileName];
+
+export const safetyConfig = {
+  safetySettings: Object.entries(safetyProfile.thresholds).map(([category, threshold]) => ({category, threshold})),
+};
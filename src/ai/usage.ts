@@ -0,0 +1,115 @@
+/**
+ * @fileOverview Token, image and latency accounting for flow requests.
+ *
+ * - meterUsage - Model middleware that records each call's tokens, images and latency.
+ * - trackUsage - Runs a flow request, then persists the calls it made as one usage record.
+ * - readUsageRecords - Reads the persisted usage records.
+ *
+ * Records are appended as JSON lines to `EDUVIS_USAGE_LOG`, which defaults to
+ * .eduvis/usage.jsonl. Point it at persistent storage in deployments whose
+ * local disk does not survive restarts.
+ */
+
+import {AsyncLocalStorage} from 'async_hooks';
+import {randomUUID} from 'crypto';
+import {appendFile, mkdir, readFile} from 'fs/promises';
+import {dirname} from 'path';
+import type {ActionContext} from 'genkit';
+import type {ModelMiddleware} from 'genkit/model';
+import {rateLimitClient} from '@/ai/rate-limit';
+import {ModelCall, UsageRecord, UsageRecordSchema, callCost} from '@/lib/usage';
+
+const usageLogPath = process.env.EDUVIS_USAGE_LOG || '.eduvis/usage.jsonl';
+
+/** The calls made so far by the request being handled. */
+const currentCalls = new AsyncLocalStorage<ModelCall[]>();
+
+/** Records the calls to `model` made with this middleware against the current request. */
+export function meterUsage(model: string): ModelMiddleware {
+  return async (request, next) => {
+    const startedAt = Date.now();
+    const response = await next(request);
+    const parts = response.message?.content ?? response.candidates?.[0]?.message.content ?? [];
+    currentCalls.getStore()?.push({
+      model,
+      inputTokens: response.usage?.inputTokens ?? 0,
+      outputTokens: response.usage?.outputTokens ?? 0,
+      images: response.usage?.outputImages ?? parts.filter(part => part.media).length,
+      latencyMs: Date.now() - startedAt,
+    });
+    return response;
+  };
+}
+
+interface TrackedRequest {
+  flow: string;
+  domain: string;
+  context?: ActionContext;
+}
+
+/**
+ * Runs `run` and records the model calls it makes. Calls from nested flows
+ * count towards the outer request. A failure to persist is logged, never thrown.
+ */
+export async function trackUsage<T extends {status: string; cached?: boolean}>(
+  {flow, domain, context}: TrackedRequest,
+  run: () => Promise<T>
+): Promise<T> {
+  if (currentCalls.getStore()) {
+    return run();
+  }
+  const calls: ModelCall[] = [];
+  const startedAt = Date.now();
+  const result = await currentCalls.run(calls, run);
+  const record: UsageRecord = {
+    id: randomUUID(),
+    timestamp: new Date().toISOString(),
+    flow,
+    domain,
+    userId: rateLimitClient(context)?.userId,
+    status: result.status,
+    cached: result.cached ?? false,
+    calls,
+    latencyMs: Date.now() - startedAt,
+    costUsd: calls.reduce((total, call) => total + callCost(call), 0),
+  };
+  try {
+    await mkdir(dirname(usageLogPath), {recursive: true});
+    await appendFile(usageLogPath, `${JSON.stringify(record)}\n`);
+  } catch (e: any) {
+    console.error('Error recording usage:', e);
+  }
+  return result;
+}
+
+/** Reads every usage record, skipping lines that cannot be parsed. */
+export async function readUsageRecords(): Promise<UsageRecord[]> {
+  let log: string;
+  try {
+    log = await readFile(usageLogPath, 'utf8');
+  } catch (e: any) {
+    if (e.code === 'ENOENT') {
+      return [];
+    }
+    throw e;
+  }
+  return log.split('\n').flatMap(line => {
+    if (!line.trim()) {
+      return [];
+    }
+    try {
+      return [UsageRecordSchema.parse(JSON.parse(line))];
+    } catch {
+      console.warn('Skipping unreadable usage record:', line.slice(0, 100));
+      return [];
+    }
+  });
+}
+
+/** Wraps a flow function so that each run is recorded with {@link trackUsage}. */
+export function withUsageTracking<I extends {domain: string}, O extends {status: string; cached?: boolean}, S extends {context?: ActionContext}>(
+  flow: string,
+  fn: (input: I, options: S) => Promise<O>
+): (input: I, options: S) => Promise<O> {
+  return (input, options) => trackUsage({flow, domain: input.domain, context: options.context}, () => fn(input, options));
+}
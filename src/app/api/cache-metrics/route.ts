@@ -0,0 +1,11 @@
+import {NextResponse} from 'next/server';
+import {resultCacheMetrics} from '@/ai/result-cache';
+import '@/ai/flows/generate-educational-visual';
+import '@/ai/flows/explain-visual-concept';
+
+export const dynamic = 'force-dynamic';
+
+/** Hit/miss metrics of the result caches; importing the flows registers their caches. */
+export function GET() {
+  return NextResponse.json(resultCacheMetrics());
+}
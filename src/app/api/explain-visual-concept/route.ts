@@ -0,0 +1,7 @@
+import {appRoute} from '@genkit-ai/next';
+import {explainVisualConceptFlow} from '@/ai/flows/explain-visual-concept-flow';
+import {clientFromHeaders, rateLimitContext} from '@/ai/rate-limit';
+
+export const POST = appRoute(explainVisualConceptFlow, {
+  contextProvider: async ({headers}) => rateLimitContext(await clientFromHeaders(name => headers[name])),
+});
@@ -6,11 +6,22 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import Image from 'next/image';
 import {
-  Atom, BrainCircuit, Cog, Dna, FlaskConical, Globe, Loader2, Rocket, Sigma, TerminalSquare, BookOpen, Lightbulb, Image as ImageIcon, X,
+  BrainCircuit, Loader2, BookOpen, Lightbulb, Image as ImageIcon, X, RotateCcw, RefreshCw, Workflow, LineChart, FlaskConical,
 } from 'lucide-react';
 
-import { generateEducationalVisual, GenerateEducationalVisualInput, GenerateEducationalVisualOutput } from '@/ai/flows/generate-educational-visual';
-import { explainVisualConcept, ExplainVisualConceptInput } from '@/ai/flows/explain-visual-concept';
+import { generateEducationalVisual, VisualCandidate } from '@/ai/flows/generate-educational-visual';
+import { generateProcessSequence, SequenceStage } from '@/ai/flows/generate-process-sequence';
+import { generateMermaidDiagram } from '@/ai/flows/generate-mermaid-diagram';
+import { generateFunctionPlot } from '@/ai/flows/generate-function-plot';
+import { generateMoleculeStructures } from '@/ai/flows/generate-molecule-structures';
+import type { explainVisualConceptFlow } from '@/ai/flows/explain-visual-concept-flow';
+import { streamFlow } from '@genkit-ai/next/client';
+import type { FlowFailure, FlowFailureStatus } from '@/ai/flow-result';
+import { Domain, DomainFormat, DomainSchema, domains, getDomain, supportsFormat } from '@/lib/domains';
+import { Audience, AudienceSchema, audiences, defaultAudience, getAudience } from '@/lib/audiences';
+import { Language, LanguageSchema, defaultLanguage, getLanguage, languages } from '@/lib/languages';
+import { HistoryItem, Refinement, VisualEntry, historyContext, historyImage, historyModelImage, visualVersion } from '@/lib/history';
+import type { PromptVersion } from '@/lib/prompt-version';
 
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -21,31 +32,29 @@ import { Separator } from '@/components/ui/separator';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { useToast } from '@/hooks/use-toast';
 import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { FollowUpChat } from '@/components/follow-up-chat';
+import { QuizPanel } from '@/components/quiz-panel';
+import { SequenceViewer } from '@/components/sequence-viewer';
+import { RefinementBar } from '@/components/refinement-bar';
+import { CandidateGrid } from '@/components/candidate-grid';
+import { LabeledImage } from '@/components/labeled-image';
+import { SvgDiagram } from '@/components/svg-diagram';
+import { MermaidDiagram } from '@/components/mermaid-diagram';
+import { FunctionPlot } from '@/components/function-plot';
+import { MoleculeStructures } from '@/components/molecule-structures';
+import { CritiquePanel } from '@/components/critique-panel';
 
 
-const domains = [
-  { value: 'Biology', label: 'Biology', icon: Dna },
-  { value: 'Physics', label: 'Physics', icon: Atom },
-  { value: 'Chemistry', label: 'Chemistry', icon: FlaskConical },
-  { value: 'Geography & Environment', label: 'Geography & Environment', icon: Globe },
-  { value: 'Space Science', label: 'Space Science', icon: Rocket },
-  { value: 'Engineering', label: 'Engineering', icon: Cog },
-  { value: 'Computer Science', label: 'Computer Science', icon: TerminalSquare },
-  { value: 'Mathematics', label: 'Mathematics', icon: Sigma },
-];
-
 const formSchema = z.object({
   prompt: z.string().optional(),
-  domain: z.enum([
-    'Biology',
-    'Physics',
-    'Chemistry',
-    'Geography & Environment',
-    'Space Science',
-    'Engineering',
-    'Computer Science',
-    'Mathematics',
-  ]),
+  domain: DomainSchema,
+  audience: AudienceSchema,
+  language: LanguageSchema,
+  format: z.enum(['image', 'svg', 'sequence', 'mermaid', 'plot', 'structure']),
+  stageCount: z.number().int().min(2).max(8),
+  variations: z.number().int().min(1).max(4),
+  selfCorrect: z.boolean(),
   image: z.any().optional(),
 }).refine(data => !!data.prompt || !!data.image, {
   message: 'Please provide a prompt or an image.',
@@ -54,15 +63,35 @@ const formSchema = z.object({
 
 type FormValues = z.infer<typeof formSchema>;
 
-type HistoryItem = (GenerateEducationalVisualOutput & GenerateEducationalVisualInput & { type: 'visual' }) | (ExplainVisualConceptInput & { explanation: string, type: 'explanation' });
+/** What a generated visual was asked for, kept until it is added to history. */
+type VisualRequest = { prompt: string; domain: Domain; audience: Audience; language: Language };
+
+const isDomainFormat = (format: FormValues['format']): format is DomainFormat =>
+  format === 'mermaid' || format === 'plot' || format === 'structure';
+
+const stageCounts = [2, 3, 4, 5, 6, 7, 8];
+const variationCounts = [1, 2, 3, 4];
+
+const failureTitles: Record<FlowFailureStatus, string> = {
+  'refused': 'Request declined',
+  'safety-blocked': 'Blocked by safety filters',
+  'quota': 'Too many requests',
+  'model-unavailable': 'Model unavailable',
+  'invalid-input': 'Invalid input',
+};
 
 
 export default function Home() {
   const [isLoading, setIsLoading] = useState(false);
   const [generatedContent, setGeneratedContent] = useState<string | null>(null);
   const [generatedDescription, setGeneratedDescription] = useState<string | null>(null);
-  const [contentType, setContentType] = useState<'visual' | 'explanation' | null>(null);
+  const [generatedStages, setGeneratedStages] = useState<Omit<SequenceStage, 'model'>[] | null>(null);
+  const [pendingCandidates, setPendingCandidates] = useState<{ request: VisualRequest; candidates: VisualCandidate[]; promptVersion: PromptVersion } | null>(null);
+  const [contentType, setContentType] = useState<'visual' | 'candidates' | 'sequence' | 'diagram' | 'plot' | 'structure' | 'explanation' | null>(null);
+  const [failure, setFailure] = useState<FlowFailure | null>(null);
+  const [servedFromCache, setServedFromCache] = useState(false);
   const [history, setHistory] = useState<HistoryItem[]>([]);
+  const [activeItemId, setActiveItemId] = useState<string | null>(null);
   const { toast } = useToast();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
@@ -71,10 +100,19 @@ export default function Home() {
     resolver: zodResolver(formSchema),
     defaultValues: {
       prompt: '',
-      domain: 'Biology',
+      domain: domains[0].id,
+      audience: defaultAudience,
+      language: defaultLanguage,
+      format: 'image',
+      stageCount: 4,
+      variations: 1,
+      selfCorrect: false,
     },
   });
 
+  const selectedDomain = form.watch('domain');
+  const selectedFormat = form.watch('format');
+
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
@@ -96,21 +134,122 @@ export default function Home() {
     }
   }
 
-  async function onSubmit(values: FormValues) {
+  function reportFailure(result: FlowFailure) {
+    setFailure(result);
+    if (result.retryAfterSeconds !== undefined) {
+      toast({ title: failureTitles[result.status], description: result.message, variant: 'destructive' });
+    }
+  }
+
+  function onSubmit(values: FormValues) {
+    return runRequest(values, { regenerate: false });
+  }
+
+  /** Runs the request again, skipping the server's result cache. */
+  const onRegenerate = form.handleSubmit(values => runRequest(values, { regenerate: true }));
+
+  async function runRequest(values: FormValues, { regenerate }: { regenerate: boolean }) {
     setIsLoading(true);
+    setServedFromCache(false);
     setGeneratedContent(null);
     setGeneratedDescription(null);
+    setGeneratedStages(null);
+    setPendingCandidates(null);
     setContentType(null);
+    setFailure(null);
+    setActiveItemId(null);
 
     try {
       if (values.image) {
         // Explanation mode
         setContentType('explanation');
-        const result = await explainVisualConcept({ photoDataUri: values.image, domain: values.domain });
+        const { stream, output } = streamFlow<typeof explainVisualConceptFlow>({
+          url: '/api/explain-visual-concept',
+          input: { photoDataUri: values.image, domain: values.domain, audience: values.audience, language: values.language, regenerate },
+        });
+        let streamedText = '';
+        for await (const chunk of stream) {
+          streamedText += chunk;
+          setGeneratedContent(streamedText);
+        }
+        const result = await output;
+        if (result.status !== 'success') {
+          reportFailure(result);
+          return;
+        }
         setGeneratedContent(result.explanation);
-        if (result.explanation && !result.explanation.startsWith('❌')) {
-          setHistory(prev => [{ photoDataUri: values.image as string, domain: values.domain, explanation: result.explanation, type: 'explanation' }, ...prev.slice(0, 49)]);
+        setServedFromCache(result.cached);
+        const id = crypto.randomUUID();
+        setHistory(prev => [{ id, thread: [], photoDataUri: values.image as string, domain: values.domain, audience: values.audience, language: values.language, explanation: result.explanation, promptVersion: result.promptVersion, model: result.model, type: 'explanation' }, ...prev.slice(0, 49)]);
+        setActiveItemId(id);
+      } else if (values.format === 'sequence') {
+        // Sequence mode
+        setContentType('sequence');
+        if (!values.prompt) {
+            toast({ title: 'Prompt is required', description: 'Please enter a prompt to generate a sequence.', variant: 'destructive' });
+            setIsLoading(false);
+            return;
+        }
+        const result = await generateProcessSequence({ prompt: values.prompt, domain: values.domain, audience: values.audience, language: values.language, stageCount: values.stageCount });
+        if (result.status !== 'success') {
+          reportFailure(result);
+          return;
+        }
+        setGeneratedStages(result.stages);
+        const id = crypto.randomUUID();
+        setHistory(prev => [{ id, thread: [], prompt: values.prompt!, domain: values.domain, audience: values.audience, language: values.language, stages: result.stages, type: 'sequence' }, ...prev.slice(0, 49)]);
+        setActiveItemId(id);
+      } else if (values.format === 'mermaid') {
+        // Diagram-as-code mode
+        setContentType('diagram');
+        if (!values.prompt) {
+            toast({ title: 'Prompt is required', description: 'Please enter a prompt to generate a diagram.', variant: 'destructive' });
+            setIsLoading(false);
+            return;
+        }
+        const result = await generateMermaidDiagram({ prompt: values.prompt, domain: values.domain, audience: values.audience, language: values.language });
+        if (result.status !== 'success') {
+          reportFailure(result);
+          return;
+        }
+        setGeneratedDescription(result.description);
+        const id = crypto.randomUUID();
+        setHistory(prev => [{ id, thread: [], prompt: values.prompt!, domain: values.domain, audience: values.audience, language: values.language, source: result.source, description: result.description, type: 'diagram' }, ...prev.slice(0, 49)]);
+        setActiveItemId(id);
+      } else if (values.format === 'plot') {
+        // Function plot mode
+        setContentType('plot');
+        if (!values.prompt) {
+            toast({ title: 'Prompt is required', description: 'Please enter a prompt to generate a plot.', variant: 'destructive' });
+            setIsLoading(false);
+            return;
+        }
+        const result = await generateFunctionPlot({ prompt: values.prompt, domain: values.domain, audience: values.audience, language: values.language });
+        if (result.status !== 'success') {
+          reportFailure(result);
+          return;
         }
+        setGeneratedDescription(result.description);
+        const id = crypto.randomUUID();
+        setHistory(prev => [{ id, thread: [], prompt: values.prompt!, domain: values.domain, audience: values.audience, language: values.language, spec: result.spec, description: result.description, type: 'plot' }, ...prev.slice(0, 49)]);
+        setActiveItemId(id);
+      } else if (values.format === 'structure') {
+        // Chemical structure mode
+        setContentType('structure');
+        if (!values.prompt) {
+            toast({ title: 'Prompt is required', description: 'Please enter a prompt to draw a structure.', variant: 'destructive' });
+            setIsLoading(false);
+            return;
+        }
+        const result = await generateMoleculeStructures({ prompt: values.prompt, domain: values.domain, audience: values.audience, language: values.language });
+        if (result.status !== 'success') {
+          reportFailure(result);
+          return;
+        }
+        setGeneratedDescription(result.description);
+        const id = crypto.randomUUID();
+        setHistory(prev => [{ id, thread: [], prompt: values.prompt!, domain: values.domain, audience: values.audience, language: values.language, molecules: result.molecules, description: result.description, type: 'structure' }, ...prev.slice(0, 49)]);
+        setActiveItemId(id);
       } else {
         // Generation mode
         setContentType('visual');
@@ -119,12 +258,33 @@ export default function Home() {
             setIsLoading(false);
             return;
         }
-        const result = await generateEducationalVisual({prompt: values.prompt, domain: values.domain});
-        setGeneratedContent(result.image);
-        setGeneratedDescription(result.description);
-
-        if (result.image && !result.image.startsWith('❌')) {
-          setHistory(prev => [{ prompt: values.prompt!, domain: values.domain, image: result.image, description: result.description, type: 'visual' }, ...prev.slice(0, 49)]);
+        const result = await generateEducationalVisual({
+          prompt: values.prompt,
+          domain: values.domain,
+          audience: values.audience,
+          language: values.language,
+          variations: values.variations,
+          output: values.format === 'svg' ? 'svg' : 'raster',
+          selfCorrect: values.selfCorrect,
+          regenerate,
+        });
+        if (result.status !== 'success') {
+          reportFailure(result);
+          return;
+        }
+        setServedFromCache(result.cached);
+        if (result.blocked > 0) {
+          toast({
+            title: result.blocked === 1 ? 'A visual was blocked' : `${result.blocked} visuals were blocked`,
+            description: 'Some candidates were withheld by the safety policy. The rest are shown.',
+          });
+        }
+        const request = { prompt: values.prompt, domain: values.domain, audience: values.audience, language: values.language };
+        if (result.candidates.length === 1) {
+          addVisualToHistory(request, result.candidates[0], result.promptVersion);
+        } else {
+          setContentType('candidates');
+          setPendingCandidates({ request, candidates: result.candidates, promptVersion: result.promptVersion });
         }
       }
     } catch (error) {
@@ -134,23 +294,82 @@ export default function Home() {
         description: 'Failed to process request. Please try again.',
         variant: 'destructive',
       });
-      setGeneratedContent('❌ An unexpected error occurred.');
+      setFailure({ status: 'model-unavailable', message: 'An unexpected error occurred.', retryable: true });
     } finally {
       setIsLoading(false);
     }
   }
   
+  function addVisualToHistory(request: VisualRequest, candidate: VisualCandidate, promptVersion: PromptVersion) {
+    setContentType('visual');
+    setPendingCandidates(null);
+    setGeneratedContent(candidate.image);
+    setGeneratedDescription(candidate.description);
+    const id = crypto.randomUUID();
+    setHistory(prev => [{ id, thread: [], ...request, image: candidate.image, description: candidate.description, svg: candidate.svg, critique: candidate.critique, promptVersion, model: candidate.model, refinements: [], activeVersion: 0, type: 'visual' }, ...prev.slice(0, 49)]);
+    setActiveItemId(id);
+  }
+
   const handleHistoryClick = (item: HistoryItem) => {
+    setFailure(null);
+    setServedFromCache(false);
+    setActiveItemId(item.id);
     if (item.type === 'visual') {
       form.setValue('prompt', item.prompt);
       form.setValue('domain', item.domain);
+      form.setValue('audience', item.audience);
+      form.setValue('language', item.language);
+      form.setValue('format', item.svg ? 'svg' : 'image');
       removeImage();
-      setGeneratedContent(item.image);
-      setGeneratedDescription(item.description);
+      showVisualVersion(item, item.activeVersion);
       setContentType('visual');
+    } else if (item.type === 'sequence') {
+      form.setValue('prompt', item.prompt);
+      form.setValue('domain', item.domain);
+      form.setValue('audience', item.audience);
+      form.setValue('language', item.language);
+      form.setValue('format', 'sequence');
+      form.setValue('stageCount', item.stages.length);
+      removeImage();
+      setGeneratedStages(item.stages);
+      setGeneratedContent(null);
+      setGeneratedDescription(null);
+      setContentType('sequence');
+    } else if (item.type === 'diagram') {
+      form.setValue('prompt', item.prompt);
+      form.setValue('domain', item.domain);
+      form.setValue('audience', item.audience);
+      form.setValue('language', item.language);
+      form.setValue('format', 'mermaid');
+      removeImage();
+      setGeneratedContent(null);
+      setGeneratedDescription(item.description);
+      setContentType('diagram');
+    } else if (item.type === 'plot') {
+      form.setValue('prompt', item.prompt);
+      form.setValue('domain', item.domain);
+      form.setValue('audience', item.audience);
+      form.setValue('language', item.language);
+      form.setValue('format', 'plot');
+      removeImage();
+      setGeneratedContent(null);
+      setGeneratedDescription(item.description);
+      setContentType('plot');
+    } else if (item.type === 'structure') {
+      form.setValue('prompt', item.prompt);
+      form.setValue('domain', item.domain);
+      form.setValue('audience', item.audience);
+      form.setValue('language', item.language);
+      form.setValue('format', 'structure');
+      removeImage();
+      setGeneratedContent(null);
+      setGeneratedDescription(item.description);
+      setContentType('structure');
     } else {
       form.setValue('prompt', '');
       form.setValue('domain', item.domain);
+      form.setValue('audience', item.audience);
+      form.setValue('language', item.language);
       setImagePreview(item.photoDataUri);
       form.setValue('image', item.photoDataUri);
       setGeneratedContent(item.explanation);
@@ -160,7 +379,41 @@ export default function Home() {
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
-  const isError = generatedContent?.startsWith('❌');
+  const updateHistoryItem = (id: string, changes: Partial<Pick<HistoryItem, 'thread' | 'quiz' | 'labels'>>) => {
+    setHistory(prev => prev.map(item => (item.id === id ? { ...item, ...changes } : item)));
+  };
+
+  const updateVisual = (id: string, update: (item: VisualEntry) => Partial<VisualEntry>) => {
+    setHistory(prev => prev.map(item => (item.id === id && item.type === 'visual' ? { ...item, ...update(item) } : item)));
+  };
+
+  function showVisualVersion(entry: VisualEntry, version: number) {
+    const { image, description } = visualVersion(entry, version);
+    setGeneratedContent(image);
+    setGeneratedDescription(description);
+  }
+
+  const handleRefined = (entry: VisualEntry, refinement: Refinement) => {
+    updateVisual(entry.id, (item) => ({
+      refinements: [...item.refinements, refinement],
+      activeVersion: item.refinements.length + 1,
+    }));
+    setGeneratedContent(refinement.image);
+    setGeneratedDescription(refinement.description);
+  };
+
+  const handleDiagramEdited = (id: string, source: string) => {
+    setHistory(prev => prev.map(item => (item.id === id && item.type === 'diagram' ? { ...item, source } : item)));
+  };
+
+  const handleSelectVersion = (entry: VisualEntry, version: number) => {
+    updateVisual(entry.id, () => ({ activeVersion: version }));
+    showVisualVersion(entry, version);
+  };
+
+  const activeItem = history.find(item => item.id === activeItemId);
+
+  const labelsFor = (item: HistoryItem, image: string) => (item.labels?.image === image ? item.labels.labels : undefined);
 
   return (
     <div className="flex min-h-screen w-full bg-background font-body">
@@ -180,25 +433,36 @@ export default function Home() {
               </div>
             ) : (
               <div className="space-y-4">
-                {history.map((item, index) => (
+                {history.map((item) => (
                   <button
-                    key={index}
+                    key={item.id}
                     onClick={() => handleHistoryClick(item)}
                     className="w-full text-left rounded-lg overflow-hidden border hover:border-primary transition-all group"
                   >
                     <div className="overflow-hidden aspect-video bg-muted flex items-center justify-center">
-                       <Image
-                        src={item.type === 'visual' ? item.image : item.photoDataUri}
-                        alt={item.type === 'visual' ? item.prompt : 'Uploaded image'}
-                        width={250}
-                        height={150}
-                        className="object-cover w-full h-full group-hover:scale-105 transition-transform duration-300"
-                        data-ai-hint="educational visual"
-                      />
+                      {item.type === 'diagram' ? (
+                        <Workflow className="h-12 w-12 text-muted-foreground group-hover:text-primary transition-colors" />
+                      ) : item.type === 'plot' ? (
+                        <LineChart className="h-12 w-12 text-muted-foreground group-hover:text-primary transition-colors" />
+                      ) : item.type === 'structure' ? (
+                        <FlaskConical className="h-12 w-12 text-muted-foreground group-hover:text-primary transition-colors" />
+                      ) : (
+                        <Image
+                          src={historyImage(item)!}
+                          alt={item.type === 'explanation' ? 'Uploaded image' : item.prompt}
+                          width={250}
+                          height={150}
+                          className="object-cover w-full h-full group-hover:scale-105 transition-transform duration-300"
+                          data-ai-hint="educational visual"
+                        />
+                      )}
                     </div>
                     <div className="p-2 bg-card">
-                      <p className="text-sm font-medium truncate group-hover:text-primary">{item.type === 'visual' ? item.prompt : 'Explanation'}</p>
-                      <p className="text-xs text-muted-foreground">{item.domain}</p>
+                      <p className="text-sm font-medium truncate group-hover:text-primary">{item.type === 'explanation' ? 'Explanation' : item.prompt}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {getDomain(item.domain).label}
+                        {` · ${getAudience(item.audience).label} · ${getLanguage(item.language).nativeName}`}
+                      </p>
                     </div>
                   </button>
                 ))}
@@ -240,6 +504,22 @@ export default function Home() {
                             disabled={!!imagePreview}
                           />
                         </FormControl>
+                        {!imagePreview && (
+                          <div className="flex flex-wrap gap-2">
+                            {getDomain(selectedDomain).exampleConcepts.map((concept) => (
+                              <Button
+                                key={concept}
+                                type="button"
+                                variant="outline"
+                                size="sm"
+                                className="h-7 rounded-full text-xs"
+                                onClick={() => form.setValue('prompt', concept, { shouldValidate: true })}
+                              >
+                                {concept}
+                              </Button>
+                            ))}
+                          </div>
+                        )}
                         <FormMessage />
                       </FormItem>
                     )}
@@ -286,7 +566,15 @@ export default function Home() {
                     render={({ field }) => (
                       <FormItem>
                         <FormLabel>Domain</FormLabel>
-                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <Select
+                          onValueChange={(value) => {
+                            field.onChange(value);
+                            if (isDomainFormat(selectedFormat) && !supportsFormat(value, selectedFormat)) {
+                              form.setValue('format', 'image');
+                            }
+                          }}
+                          defaultValue={field.value}
+                        >
                           <FormControl>
                             <SelectTrigger>
                               <SelectValue placeholder="Select a domain" />
@@ -294,7 +582,7 @@ export default function Home() {
                           </FormControl>
                           <SelectContent>
                             {domains.map((domain) => (
-                              <SelectItem key={domain.value} value={domain.value}>
+                              <SelectItem key={domain.id} value={domain.id}>
                                 <div className="flex items-center gap-2">
                                   <domain.icon className="h-4 w-4" />
                                   <span>{domain.label}</span>
@@ -307,14 +595,169 @@ export default function Home() {
                       </FormItem>
                     )}
                   />
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="audience"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Audience</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {audiences.map((audience) => (
+                                <SelectItem key={audience.id} value={audience.id}>{audience.label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="language"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Language</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {languages.map((language) => (
+                                <SelectItem key={language.id} value={language.id}>{language.nativeName}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+
+                  {!imagePreview && (
+                    <div className="grid grid-cols-2 gap-4">
+                      <FormField
+                        control={form.control}
+                        name="format"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Output</FormLabel>
+                            <Select onValueChange={field.onChange} value={field.value}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value="image">Single visual</SelectItem>
+                                <SelectItem value="svg">SVG diagram</SelectItem>
+                                <SelectItem value="sequence">Process sequence</SelectItem>
+                                {supportsFormat(selectedDomain, 'mermaid') && (
+                                  <SelectItem value="mermaid">Flowchart (Mermaid)</SelectItem>
+                                )}
+                                {supportsFormat(selectedDomain, 'plot') && (
+                                  <SelectItem value="plot">Function plot</SelectItem>
+                                )}
+                                {supportsFormat(selectedDomain, 'structure') && (
+                                  <SelectItem value="structure">Chemical structures</SelectItem>
+                                )}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      {(selectedFormat === 'image' || selectedFormat === 'svg') && (
+                        <FormField
+                          control={form.control}
+                          name="variations"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Variations</FormLabel>
+                              <Select onValueChange={(value) => field.onChange(Number(value))} value={String(field.value)}>
+                                <FormControl>
+                                  <SelectTrigger>
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  {variationCounts.map((count) => (
+                                    <SelectItem key={count} value={String(count)}>
+                                      {count === 1 ? '1 visual' : `${count} candidates`}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      )}
+                      {selectedFormat === 'image' && (
+                        <FormField
+                          control={form.control}
+                          name="selfCorrect"
+                          render={({ field }) => (
+                            <FormItem className="col-span-2 flex items-center justify-between gap-4 rounded-md border p-3">
+                              <div className="space-y-0.5">
+                                <FormLabel>Fix detected errors</FormLabel>
+                                <p className="text-xs text-muted-foreground">If the accuracy check finds issues, regenerate once with them corrected.</p>
+                              </div>
+                              <FormControl>
+                                <Switch checked={field.value} onCheckedChange={field.onChange} />
+                              </FormControl>
+                            </FormItem>
+                          )}
+                        />
+                      )}
+                      {selectedFormat === 'sequence' && (
+                        <FormField
+                          control={form.control}
+                          name="stageCount"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Stages</FormLabel>
+                              <Select onValueChange={(value) => field.onChange(Number(value))} value={String(field.value)}>
+                                <FormControl>
+                                  <SelectTrigger>
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  {stageCounts.map((count) => (
+                                    <SelectItem key={count} value={String(count)}>{count} stages</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      )}
+                    </div>
+                  )}
                   <Button type="submit" disabled={isLoading} className="w-full bg-primary hover:bg-primary/90 text-primary-foreground">
-                    {isLoading ? (
+                    {isLoading && !generatedContent ? (
                       <>
                         <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                         {imagePreview ? 'Explaining...' : 'Generating...'}
                       </>
                     ) : (
-                      imagePreview ? 'Explain Visual' : 'Generate Visual'
+                      imagePreview ? 'Explain Visual'
+                        : selectedFormat === 'sequence' ? 'Generate Sequence'
+                        : selectedFormat === 'mermaid' ? 'Generate Diagram'
+                        : selectedFormat === 'plot' ? 'Generate Plot'
+                        : selectedFormat === 'structure' ? 'Draw Structures'
+                        : 'Generate Visual'
                     )}
                   </Button>
                 </form>
@@ -322,48 +765,148 @@ export default function Home() {
             </CardContent>
           </Card>
 
-          <Card className="shadow-lg flex flex-col">
-            <CardHeader>
-              <CardTitle className="font-headline text-2xl">Result</CardTitle>
-              <CardDescription>The AI-generated content will appear below.</CardDescription>
-            </CardHeader>
-            <CardContent className="flex-1 flex items-center justify-center">
-              <div className="w-full h-full rounded-lg border border-dashed flex items-center justify-center bg-muted/50 p-2">
-                {isLoading ? (
-                  <div className="flex flex-col items-center gap-4 text-muted-foreground">
-                      <Lightbulb className="h-16 w-16 animate-pulse text-accent" />
-                      <p>Processing...</p>
+          <div className="flex flex-col gap-8">
+            <Card className="shadow-lg flex flex-col flex-1">
+              <CardHeader>
+                <CardTitle className="font-headline text-2xl">Result</CardTitle>
+                <CardDescription>The AI-generated content will appear below.</CardDescription>
+                {servedFromCache && !isLoading && (
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <span>This result was reused from an identical earlier request.</span>
+                    <Button type="button" variant="link" size="sm" className="h-auto p-0" onClick={onRegenerate}>
+                      <RefreshCw className="mr-1 h-3 w-3" />
+                      Regenerate
+                    </Button>
                   </div>
-                ) : generatedContent ? (
-                  isError ? (
-                    <div className="text-center text-destructive p-4">
-                      <p className="font-semibold">{generatedContent}</p>
+                )}
+              </CardHeader>
+              <CardContent className="flex-1 flex items-center justify-center">
+                <div className="w-full h-full rounded-lg border border-dashed flex items-center justify-center bg-muted/50 p-2">
+                  {isLoading && !generatedContent ? (
+                    <div className="flex flex-col items-center gap-4 text-muted-foreground">
+                        <Lightbulb className="h-16 w-16 animate-pulse text-accent" />
+                        <p>Processing...</p>
                     </div>
-                  ) : contentType === 'visual' ? (
-                    <div className="flex flex-col gap-4 items-center text-center">
-                        <Image
-                            src={generatedContent}
-                            alt={form.getValues('prompt') || 'Generated visual'}
-                            width={512}
-                            height={512}
-                            className="object-contain w-full h-full max-h-[calc(100%-4rem)] rounded-md"
-                            data-ai-hint="educational visual"
-                        />
-                        {generatedDescription && <p className="text-sm text-muted-foreground">{generatedDescription}</p>}
+                  ) : failure ? (
+                    <div className="flex flex-col items-center gap-2 text-center text-destructive p-4">
+                      <p className="font-semibold">{failureTitles[failure.status]}</p>
+                      <p className="text-sm">{failure.message}</p>
+                      {failure.retryable && (
+                        <Button type="button" variant="outline" size="sm" className="mt-2" onClick={form.handleSubmit(onSubmit)}>
+                          <RotateCcw className="mr-2 h-4 w-4" />
+                          Try again
+                        </Button>
+                      )}
+                    </div>
+                  ) : contentType === 'candidates' && pendingCandidates ? (
+                    <CandidateGrid
+                      candidates={pendingCandidates.candidates}
+                      concept={pendingCandidates.request.prompt}
+                      onChoose={(candidate) => addVisualToHistory(pendingCandidates.request, candidate, pendingCandidates.promptVersion)}
+                    />
+                  ) : contentType === 'sequence' && generatedStages ? (
+                    <SequenceViewer stages={generatedStages} concept={form.getValues('prompt') || 'Process sequence'} />
+                  ) : contentType === 'diagram' && activeItem?.type === 'diagram' ? (
+                    <div className="flex w-full flex-col gap-4 items-center text-center">
+                      <MermaidDiagram
+                        key={activeItem.id}
+                        source={activeItem.source}
+                        onSourceChange={(source) => handleDiagramEdited(activeItem.id, source)}
+                      />
+                      {generatedDescription && <p className="text-sm text-muted-foreground">{generatedDescription}</p>}
                     </div>
+                  ) : contentType === 'plot' && activeItem?.type === 'plot' ? (
+                    <div className="flex w-full flex-col gap-4 items-center text-center">
+                      <FunctionPlot key={activeItem.id} spec={activeItem.spec} />
+                      {generatedDescription && <p className="text-sm text-muted-foreground">{generatedDescription}</p>}
+                    </div>
+                  ) : contentType === 'structure' && activeItem?.type === 'structure' ? (
+                    <div className="flex w-full flex-col gap-4 items-center text-center">
+                      <MoleculeStructures key={activeItem.id} molecules={activeItem.molecules} />
+                      {generatedDescription && <p className="text-sm text-muted-foreground">{generatedDescription}</p>}
+                    </div>
+                  ) : generatedContent ? (
+                    contentType === 'visual' ? (
+                      <div className="flex flex-col gap-4 items-center text-center">
+                          {activeItem?.type === 'visual' && activeItem.svg && !isLoading ? (
+                            <SvgDiagram svg={activeItem.svg} title={activeItem.prompt} />
+                          ) : activeItem && !isLoading ? (
+                            <LabeledImage
+                              key={generatedContent}
+                              src={generatedContent}
+                              alt={form.getValues('prompt') || 'Generated visual'}
+                              domain={activeItem.domain}
+                              labels={labelsFor(activeItem, generatedContent)}
+                              onLabelsDetected={(labels) => updateHistoryItem(activeItem.id, { labels: { image: generatedContent, labels } })}
+                            />
+                          ) : (
+                            <Image
+                                src={generatedContent}
+                                alt={form.getValues('prompt') || 'Generated visual'}
+                                width={512}
+                                height={512}
+                                className="object-contain w-full h-full max-h-[calc(100%-4rem)] rounded-md"
+                                data-ai-hint="educational visual"
+                            />
+                          )}
+                          {generatedDescription && <p className="text-sm text-muted-foreground">{generatedDescription}</p>}
+                          {activeItem?.type === 'visual' && activeItem.critique && activeItem.activeVersion === 0 && !isLoading && (
+                            <CritiquePanel critique={activeItem.critique} />
+                          )}
+                          {activeItem?.type === 'visual' && !activeItem.svg && !isLoading && (
+                            <RefinementBar
+                              key={activeItem.id}
+                              entry={activeItem}
+                              onRefined={(refinement) => handleRefined(activeItem, refinement)}
+                              onSelectVersion={(version) => handleSelectVersion(activeItem, version)}
+                            />
+                          )}
+                      </div>
+                    ) : (
+                       <ScrollArea className="h-full w-full p-4">
+                         {activeItem?.type === 'explanation' && !isLoading && (
+                           <div className="mb-4">
+                             <LabeledImage
+                               key={activeItem.photoDataUri}
+                               src={activeItem.photoDataUri}
+                               alt="Uploaded image"
+                               domain={activeItem.domain}
+                               labels={labelsFor(activeItem, activeItem.photoDataUri)}
+                               onLabelsDetected={(labels) => updateHistoryItem(activeItem.id, { labels: { image: activeItem.photoDataUri, labels } })}
+                             />
+                           </div>
+                         )}
+                         <p className="whitespace-pre-wrap">{generatedContent}</p>
+                       </ScrollArea>
+                    )
                   ) : (
-                     <ScrollArea className="h-full w-full p-4">
-                       <p className="whitespace-pre-wrap">{generatedContent}</p>
-                     </ScrollArea>
-                  )
-                ) : (
-                  <div className="text-center text-muted-foreground p-4">
-                    <p>Your generated visual or explanation will be displayed here.</p>
-                  </div>
-                )}
-              </div>
-            </CardContent>
-          </Card>
+                    <div className="text-center text-muted-foreground p-4">
+                      <p>Your generated visual or explanation will be displayed here.</p>
+                    </div>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
+            {activeItem && !isLoading && (
+              <>
+                <FollowUpChat
+                  key={activeItem.id}
+                  photoDataUri={historyModelImage(activeItem)}
+                  domain={activeItem.domain}
+                  context={historyContext(activeItem)}
+                  thread={activeItem.thread}
+                  onThreadChange={(thread) => updateHistoryItem(activeItem.id, { thread })}
+                />
+                <QuizPanel
+                  key={`quiz-${activeItem.id}`}
+                  item={activeItem}
+                  quiz={activeItem.quiz}
+                  onQuizChange={(quiz) => updateHistoryItem(activeItem.id, { quiz })}
+                />
+              </>
+            )}
+          </div>
         </div>
       </main>
     </div>
@@ -0,0 +1,95 @@
+import Link from 'next/link';
+import { ArrowLeft, BrainCircuit } from 'lucide-react';
+
+import { readUsageRecords } from '@/ai/usage';
+import { costBy, dayOf, formatUsd } from '@/lib/usage';
+
+import { CostChart } from '@/components/cost-chart';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+export const dynamic = 'force-dynamic';
+
+/** Users beyond this many, ranked by cost, are left out of the per-user chart. */
+const maxUsers = 15;
+
+export default async function UsagePage() {
+  const records = await readUsageRecords();
+  const totalCost = records.reduce((total, record) => total + record.costUsd, 0);
+  const cachedCount = records.filter(record => record.cached).length;
+  const modelCalls = records.flatMap(record => record.calls);
+  const imageCount = modelCalls.reduce((total, call) => total + call.images, 0);
+  const tokenCount = modelCalls.reduce((total, call) => total + call.inputTokens + call.outputTokens, 0);
+
+  const byDay = costBy(records, dayOf);
+  const byDomain = costBy(records, record => record.domain);
+  // The first 8 characters of the anonymous identifiers are enough to tell users apart.
+  const byUser = costBy(records.filter(record => record.userId), record => record.userId!.slice(0, 8))
+    .sort((a, b) => b.costUsd - a.costUsd)
+    .slice(0, maxUsers);
+
+  const summary = [
+    { label: 'Total cost', value: formatUsd(totalCost) },
+    { label: 'Requests', value: records.length.toLocaleString() },
+    { label: 'Served from cache', value: records.length ? `${Math.round((cachedCount / records.length) * 100)}%` : '–' },
+    { label: 'Images generated', value: imageCount.toLocaleString() },
+    { label: 'Tokens', value: tokenCount.toLocaleString() },
+  ];
+
+  return (
+    <div className="min-h-screen w-full bg-background font-body p-4 md:p-8">
+      <div className="mx-auto max-w-5xl space-y-8">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <BrainCircuit className="h-8 w-8 text-primary" />
+            <h1 className="text-2xl font-bold font-headline">Usage</h1>
+          </div>
+          <Link href="/" className="flex items-center gap-1 text-sm text-muted-foreground hover:text-primary">
+            <ArrowLeft className="h-4 w-4" />
+            Back to EduVis AI
+          </Link>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4 md:grid-cols-5">
+          {summary.map(({ label, value }) => (
+            <Card key={label}>
+              <CardHeader className="p-4">
+                <CardDescription>{label}</CardDescription>
+                <CardTitle className="text-2xl">{value}</CardTitle>
+              </CardHeader>
+            </Card>
+          ))}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="font-headline">Cost by day</CardTitle>
+            <CardDescription>Visual generation and explanation requests, in US dollars at list prices.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <CostChart rows={byDay} />
+          </CardContent>
+        </Card>
+
+        <div className="grid gap-8 md:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle className="font-headline">Cost by domain</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <CostChart rows={byDomain} />
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle className="font-headline">Cost by user</CardTitle>
+              <CardDescription>The {maxUsers} most expensive anonymous users.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <CostChart rows={byUser} />
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+'use client';
+
+import Image from 'next/image';
+import { Check } from 'lucide-react';
+
+import type { VisualCandidate } from '@/ai/flows/generate-educational-visual';
+
+import { CritiquePanel } from '@/components/critique-panel';
+import { Button } from '@/components/ui/button';
+
+interface CandidateGridProps {
+  candidates: VisualCandidate[];
+  /** Used as alt text for the candidates. */
+  concept: string;
+  onChoose: (candidate: VisualCandidate) => void;
+}
+
+export function CandidateGrid({ candidates, concept, onChoose }: CandidateGridProps) {
+  return (
+    <div className="w-full space-y-3">
+      <p className="text-center text-sm text-muted-foreground">Choose the best visual to keep it in your history.</p>
+      <div className="grid grid-cols-2 gap-3">
+        {candidates.map((candidate, index) => (
+          <div key={index} className="flex flex-col gap-2 rounded-lg border bg-card p-2">
+            <Image
+              src={candidate.image}
+              alt={`${concept}, candidate ${index + 1}`}
+              width={256}
+              height={256}
+              className="object-contain w-full rounded-md"
+              data-ai-hint="educational visual"
+            />
+            <p className="text-xs text-muted-foreground line-clamp-3">{candidate.description}</p>
+            {candidate.critique && <CritiquePanel critique={candidate.critique} compact />}
+            <Button type="button" size="sm" className="mt-auto" onClick={() => onChoose(candidate)}>
+              <Check className="mr-2 h-4 w-4" />
+              Use this one
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+'use client';
+
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+
+import { CostRow, formatUsd } from '@/lib/usage';
+
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+
+interface CostChartProps {
+  rows: CostRow[];
+}
+
+const config = {
+  costUsd: { label: 'Cost', color: 'hsl(var(--chart-1))' },
+} satisfies ChartConfig;
+
+/** A bar chart of cost per key, with the request count in the tooltip. */
+export function CostChart({ rows }: CostChartProps) {
+  if (rows.length === 0) {
+    return <p className="text-sm text-muted-foreground">No requests recorded yet.</p>;
+  }
+  return (
+    <ChartContainer config={config} className="h-64 w-full">
+      <BarChart data={rows} margin={{ top: 8, right: 8, bottom: 8, left: 8 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="key" tickLine={false} axisLine={false} />
+        <YAxis tickFormatter={formatUsd} width={72} tickLine={false} axisLine={false} />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              formatter={(value, _, item) => `${formatUsd(value as number)} over ${item.payload.requests} requests`}
+            />
+          }
+        />
+        <Bar dataKey="costUsd" fill="var(--color-costUsd)" radius={4} />
+      </BarChart>
+    </ChartContainer>
+  );
+}
@@ -0,0 +1,78 @@
+'use client';
+
+import { AlertTriangle, CheckCircle2, RefreshCw } from 'lucide-react';
+
+import type { CritiqueReview, VisualCritique } from '@/lib/visual-critique';
+
+import { Badge } from '@/components/ui/badge';
+
+interface CritiquePanelProps {
+  critique: VisualCritique;
+  /** Show only the summary badge, e.g. under a candidate thumbnail. */
+  compact?: boolean;
+}
+
+const issueKinds: Record<VisualCritique['issues'][number]['kind'], string> = {
+  label: 'Label',
+  structure: 'Structure',
+  other: 'Other',
+};
+
+function CritiqueSummary({ critique }: { critique: CritiqueReview & Pick<VisualCritique, 'correction'> }) {
+  const confidence = Math.round(critique.confidence * 100);
+  const hasIssues = critique.issues.length > 0;
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2">
+      <Badge variant={hasIssues ? 'destructive' : 'secondary'}>
+        {hasIssues ? <AlertTriangle className="mr-1 h-3 w-3" /> : <CheckCircle2 className="mr-1 h-3 w-3" />}
+        {hasIssues
+          ? `${critique.issues.length} possible ${critique.issues.length === 1 ? 'issue' : 'issues'}`
+          : 'No issues found'}
+      </Badge>
+      <Badge variant="outline">{confidence}% confident it is accurate</Badge>
+      {critique.correction && (
+        <Badge variant="outline">
+          <RefreshCw className="mr-1 h-3 w-3" />
+          {critique.correction.kept === 'retry' ? 'Regenerated' : 'Regeneration was not better'}
+        </Badge>
+      )}
+    </div>
+  );
+}
+
+function IssueList({ issues }: { issues: CritiqueReview['issues'] }) {
+  return (
+    <ul className="space-y-1 text-sm text-muted-foreground">
+      {issues.map((issue, index) => (
+        <li key={index}>
+          <span className="font-medium text-foreground">{issueKinds[issue.kind]}:</span> {issue.description}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function CritiquePanel({ critique, compact }: CritiquePanelProps) {
+  const { correction } = critique;
+  if (compact || (critique.issues.length === 0 && !correction)) {
+    return <CritiqueSummary critique={critique} />;
+  }
+  // The review of the attempt that is not shown, so the user can see what the regeneration changed.
+  const other = correction && (correction.kept === 'retry' ? correction.first : correction.retry);
+  return (
+    <div className="w-full space-y-2 rounded-md border bg-card p-3 text-left">
+      <p className="text-sm font-medium">Accuracy check</p>
+      <CritiqueSummary critique={critique} />
+      <IssueList issues={critique.issues} />
+      {other && (
+        <>
+          <p className="pt-2 text-sm font-medium">
+            {correction.kept === 'retry' ? 'First attempt, before regeneration' : 'Regenerated attempt, not kept'}
+          </p>
+          <CritiqueSummary critique={other} />
+          <IssueList issues={other.issues} />
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2, MessageCircle, Send } from 'lucide-react';
+
+import { followUpChat, ChatMessage } from '@/ai/flows/follow-up-chat';
+import type { Domain } from '@/lib/domains';
+import { cn } from '@/lib/utils';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useToast } from '@/hooks/use-toast';
+
+interface FollowUpChatProps {
+  photoDataUri?: string;
+  domain: Domain;
+  /** The description or explanation already shown for the visual. */
+  context: string;
+  thread: ChatMessage[];
+  onThreadChange: (thread: ChatMessage[]) => void;
+}
+
+export function FollowUpChat({ photoDataUri, domain, context, thread, onThreadChange }: FollowUpChatProps) {
+  const [message, setMessage] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const { toast } = useToast();
+
+  async function sendMessage(event: React.FormEvent) {
+    event.preventDefault();
+    const text = message.trim();
+    if (!text || isSending) return;
+
+    const messages: ChatMessage[] = [...thread, { role: 'user', text }];
+    onThreadChange(messages);
+    setMessage('');
+    setIsSending(true);
+
+    try {
+      const result = await followUpChat({ photoDataUri, domain, context, messages });
+      if (result.status !== 'success') {
+        // Drop the unanswered question so the thread stays question/answer pairs.
+        onThreadChange(thread);
+        setMessage(text);
+        toast({ title: 'Could not answer', description: result.message, variant: 'destructive' });
+        return;
+      }
+      onThreadChange([...messages, { role: 'model', text: result.reply }]);
+    } catch (error) {
+      console.error(error);
+      onThreadChange(thread);
+      setMessage(text);
+      toast({ title: 'An error occurred', description: 'Failed to send your question. Please try again.', variant: 'destructive' });
+    } finally {
+      setIsSending(false);
+    }
+  }
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <CardTitle className="font-headline text-xl flex items-center gap-2">
+          <MessageCircle className="h-5 w-5 text-primary" />
+          Ask a follow-up
+        </CardTitle>
+        <CardDescription>Ask questions about this visual, e.g. &quot;Why is the chloroplast green?&quot;</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {thread.length > 0 && (
+          <ScrollArea className="max-h-80 pr-3">
+            <div className="space-y-3">
+              {thread.map((entry, index) => (
+                <div
+                  key={index}
+                  className={cn(
+                    'rounded-lg px-3 py-2 text-sm whitespace-pre-wrap max-w-[85%]',
+                    entry.role === 'user' ? 'ml-auto bg-primary text-primary-foreground' : 'bg-muted'
+                  )}
+                >
+                  {entry.text}
+                </div>
+              ))}
+              {isSending && (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Thinking...
+                </div>
+              )}
+            </div>
+          </ScrollArea>
+        )}
+        <form onSubmit={sendMessage} className="flex gap-2">
+          <Input
+            value={message}
+            onChange={(event) => setMessage(event.target.value)}
+            placeholder="Type your question..."
+            disabled={isSending}
+          />
+          <Button type="submit" size="icon" disabled={isSending || !message.trim()}>
+            {isSending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,104 @@
+'use client';
+
+import { useMemo } from 'react';
+import { CartesianGrid, Line, LineChart, ReferenceDot, ReferenceLine, XAxis, YAxis } from 'recharts';
+
+import { PlotSpec, resolvePlot, samplePlot } from '@/lib/plot';
+
+import {
+  ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent,
+} from '@/components/ui/chart';
+
+interface FunctionPlotProps {
+  spec: PlotSpec;
+}
+
+const formatNumber = (value: number) => Number(value.toPrecision(3)).toString();
+
+/** Plots the curves of a spec exactly by evaluating its expressions in the browser. */
+export function FunctionPlot({ spec }: FunctionPlotProps) {
+  const plot = useMemo(() => {
+    try {
+      const resolved = resolvePlot(spec);
+      return { resolved, rows: samplePlot(resolved) };
+    } catch (e: any) {
+      return { error: e.message as string };
+    }
+  }, [spec]);
+
+  if ('error' in plot) {
+    return <p className="text-sm text-destructive">This plot could not be drawn: {plot.error}</p>;
+  }
+
+  const { resolved, rows } = plot;
+  const config: ChartConfig = Object.fromEntries(
+    resolved.series.map((series, index) => [`s${index}`, { label: series.label, color: `hsl(var(--chart-${index + 1}))` }])
+  );
+
+  return (
+    <div className="w-full space-y-2">
+      <p className="text-center font-semibold">{spec.title}</p>
+      <ChartContainer config={config} className="w-full">
+        <LineChart data={rows} margin={{ top: 8, right: 16, bottom: 16, left: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis
+            dataKey="x"
+            type="number"
+            domain={resolved.xDomain}
+            tickFormatter={formatNumber}
+            label={{ value: spec.xLabel, position: 'insideBottom', offset: -8 }}
+          />
+          <YAxis
+            domain={resolved.yDomain ?? ['auto', 'auto']}
+            allowDataOverflow={!!resolved.yDomain}
+            tickFormatter={formatNumber}
+            label={{ value: spec.yLabel, angle: -90, position: 'insideLeft' }}
+          />
+          <ReferenceLine y={0} stroke="hsl(var(--muted-foreground))" />
+          <ReferenceLine x={0} stroke="hsl(var(--muted-foreground))" />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                labelFormatter={(_, payload) => `x = ${formatNumber(payload[0]?.payload.x ?? 0)}`}
+                formatter={(value, name) => `${config[name as string]?.label}: ${formatNumber(value as number)}`}
+              />
+            }
+          />
+          <ChartLegend content={<ChartLegendContent />} />
+          {resolved.series.map((_, index) => (
+            <Line
+              key={index}
+              dataKey={`s${index}`}
+              type="linear"
+              stroke={`var(--color-s${index})`}
+              strokeWidth={2}
+              dot={false}
+              isAnimationActive={false}
+            />
+          ))}
+          {resolved.annotations.map((annotation, index) =>
+            annotation.y === undefined ? (
+              <ReferenceLine
+                key={index}
+                x={annotation.x}
+                stroke="hsl(var(--accent))"
+                strokeDasharray="4 4"
+                label={{ value: annotation.label, position: 'top', fontSize: 11 }}
+              />
+            ) : (
+              <ReferenceDot
+                key={index}
+                x={annotation.x}
+                y={annotation.y}
+                r={4}
+                fill="hsl(var(--accent))"
+                stroke="none"
+                label={{ value: annotation.label, position: 'top', fontSize: 11 }}
+              />
+            )
+          )}
+        </LineChart>
+      </ChartContainer>
+    </div>
+  );
+}
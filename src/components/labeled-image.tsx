@@ -0,0 +1,109 @@
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import { Loader2, Tags } from 'lucide-react';
+
+import { extractDiagramLabels, DiagramLabel } from '@/ai/flows/extract-diagram-labels';
+import type { Domain } from '@/lib/domains';
+import { cn } from '@/lib/utils';
+
+import { Button } from '@/components/ui/button';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { useToast } from '@/hooks/use-toast';
+
+interface LabeledImageProps {
+  src: string;
+  alt: string;
+  domain: Domain;
+  /** Labels previously detected for `src`, if any. */
+  labels?: DiagramLabel[];
+  onLabelsDetected: (labels: DiagramLabel[]) => void;
+  className?: string;
+}
+
+/** An image that can be analyzed into hoverable, clickable hotspots for its labeled parts. */
+export function LabeledImage({ src, alt, domain, labels, onLabelsDetected, className }: LabeledImageProps) {
+  const [isDetecting, setIsDetecting] = useState(false);
+  const [showHotspots, setShowHotspots] = useState(true);
+  const [selected, setSelected] = useState<DiagramLabel | null>(null);
+  const { toast } = useToast();
+
+  async function detectLabels() {
+    setIsDetecting(true);
+    try {
+      const result = await extractDiagramLabels({ photoDataUri: src, domain });
+      if (result.status !== 'success') {
+        toast({ title: 'Could not detect labels', description: result.message, variant: 'destructive' });
+        return;
+      }
+      setShowHotspots(true);
+      onLabelsDetected(result.labels);
+    } catch (error) {
+      console.error(error);
+      toast({ title: 'An error occurred', description: 'Failed to detect labels. Please try again.', variant: 'destructive' });
+    } finally {
+      setIsDetecting(false);
+    }
+  }
+
+  return (
+    <div className="flex w-full flex-col items-center gap-2">
+      <TooltipProvider delayDuration={100}>
+        <div className="relative w-full">
+          <Image
+            src={src}
+            alt={alt}
+            width={512}
+            height={512}
+            className={cn('block w-full h-auto rounded-md', className)}
+            data-ai-hint="educational visual"
+          />
+          {labels && showHotspots && labels.map((label, index) => (
+            <Tooltip key={index}>
+              <TooltipTrigger asChild>
+                <button
+                  type="button"
+                  aria-label={label.text}
+                  onClick={() => setSelected(label)}
+                  className={cn(
+                    'absolute rounded-sm border-2 border-accent/70 bg-accent/10 transition-colors hover:bg-accent/30 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring',
+                    selected === label && 'border-primary bg-primary/20'
+                  )}
+                  style={{
+                    left: `${label.box.x * 100}%`,
+                    top: `${label.box.y * 100}%`,
+                    width: `${label.box.width * 100}%`,
+                    height: `${label.box.height * 100}%`,
+                  }}
+                />
+              </TooltipTrigger>
+              <TooltipContent className="max-w-xs">
+                <p className="font-semibold">{label.text}</p>
+                <p className="text-xs">{label.definition}</p>
+              </TooltipContent>
+            </Tooltip>
+          ))}
+        </div>
+      </TooltipProvider>
+
+      {selected && showHotspots && (
+        <div className="w-full rounded-md border bg-card p-2 text-left text-sm">
+          <span className="font-semibold">{selected.text}:</span> {selected.definition}
+        </div>
+      )}
+
+      {labels ? (
+        <Button type="button" variant="ghost" size="sm" onClick={() => setShowHotspots((show) => !show)}>
+          <Tags className="mr-2 h-4 w-4" />
+          {showHotspots ? 'Hide hotspots' : `Show ${labels.length} hotspots`}
+        </Button>
+      ) : (
+        <Button type="button" variant="outline" size="sm" onClick={detectLabels} disabled={isDetecting}>
+          {isDetecting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Tags className="mr-2 h-4 w-4" />}
+          {isDetecting ? 'Detecting labels...' : 'Make interactive'}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+'use client';
+
+import { useEffect, useId, useState } from 'react';
+import { Code, Loader2, Play } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+
+interface MermaidDiagramProps {
+  source: string;
+  /** Called with edited source when the user re-renders the diagram. */
+  onSourceChange: (source: string) => void;
+}
+
+let mermaidLoader: Promise<typeof import('mermaid').default> | null = null;
+
+/** Loads Mermaid on first use; it is large and only needed for diagrams. */
+function loadMermaid() {
+  mermaidLoader ??= import('mermaid').then(({ default: mermaid }) => {
+    // Strict mode escapes labels and disables click handlers in the source.
+    mermaid.initialize({ startOnLoad: false, securityLevel: 'strict', theme: 'neutral' });
+    return mermaid;
+  });
+  return mermaidLoader;
+}
+
+/** Parses and renders Mermaid source, with an editor for changing the source and re-rendering. */
+export function MermaidDiagram({ source, onSourceChange }: MermaidDiagramProps) {
+  const [svg, setSvg] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isRendering, setIsRendering] = useState(true);
+  const [showSource, setShowSource] = useState(false);
+  const [draft, setDraft] = useState(source);
+  const renderId = `mermaid-${useId().replace(/[^\w-]/g, '')}`;
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsRendering(true);
+
+    (async () => {
+      try {
+        const mermaid = await loadMermaid();
+        // Parse first so syntax errors are reported instead of rendered as an error diagram.
+        await mermaid.parse(source);
+        const result = await mermaid.render(renderId, source);
+        if (!cancelled) {
+          setSvg(result.svg);
+          setError(null);
+        }
+      } catch (e: any) {
+        if (!cancelled) {
+          setSvg(null);
+          setError(e?.message ?? 'The diagram source could not be parsed.');
+          setShowSource(true);
+        }
+      } finally {
+        if (!cancelled) setIsRendering(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [source, renderId]);
+
+  return (
+    <div className="flex w-full flex-col items-center gap-2">
+      {isRendering ? (
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      ) : svg ? (
+        <div
+          className="w-full overflow-auto rounded-md bg-white p-2 [&>svg]:mx-auto [&>svg]:h-auto [&>svg]:max-w-full"
+          dangerouslySetInnerHTML={{ __html: svg }}
+        />
+      ) : (
+        <pre className="w-full whitespace-pre-wrap rounded-md border border-destructive/50 bg-card p-2 text-left text-xs text-destructive">
+          {error}
+        </pre>
+      )}
+
+      {showSource ? (
+        <form
+          className="flex w-full flex-col gap-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            onSourceChange(draft);
+          }}
+        >
+          <Textarea
+            value={draft}
+            onChange={(event) => setDraft(event.target.value)}
+            rows={10}
+            spellCheck={false}
+            className="font-mono text-xs"
+            aria-label="Mermaid source"
+          />
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="ghost" size="sm" onClick={() => setShowSource(false)}>
+              Hide source
+            </Button>
+            <Button type="submit" size="sm" disabled={isRendering || draft === source}>
+              <Play className="mr-2 h-4 w-4" />
+              Re-render
+            </Button>
+          </div>
+        </form>
+      ) : (
+        <Button type="button" variant="outline" size="sm" onClick={() => setShowSource(true)}>
+          <Code className="mr-2 h-4 w-4" />
+          Edit source
+        </Button>
+      )}
+    </div>
+  );
+}
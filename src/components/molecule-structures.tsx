@@ -0,0 +1,74 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Tags } from 'lucide-react';
+
+import { loadSmilesDrawer } from '@/lib/molecules';
+import type { Molecule } from '@/lib/molecules';
+
+import { Button } from '@/components/ui/button';
+
+interface MoleculeStructuresProps {
+  molecules: Molecule[];
+}
+
+function Structure({ molecule, showAllAtoms }: { molecule: Molecule; showAllAtoms: boolean }) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadSmilesDrawer().then((SmilesDrawer) => {
+      if (cancelled || !svgRef.current) return;
+      const drawer = new SmilesDrawer.SvgDrawer({
+        width: 320,
+        height: 240,
+        // Skeletal formulas leave carbons unlabeled; 'all' labels every atom.
+        showCarbons: showAllAtoms ? 'all' : 'default',
+      });
+      SmilesDrawer.parse(
+        molecule.smiles,
+        (tree) => {
+          if (cancelled || !svgRef.current) return;
+          drawer.draw(tree, svgRef.current, 'light');
+          setError(null);
+        },
+        (e) => setError(e.message)
+      );
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [molecule.smiles, showAllAtoms]);
+
+  return (
+    <figure className="flex flex-col items-center gap-1 rounded-lg border bg-white p-2">
+      {error ? (
+        <p className="text-xs text-destructive">Could not draw {molecule.smiles}: {error}</p>
+      ) : (
+        <svg ref={svgRef} role="img" aria-label={`Structure of ${molecule.name}`} className="h-auto w-full max-w-[320px]" />
+      )}
+      <figcaption className="text-sm font-medium text-foreground">{molecule.name}</figcaption>
+      <code className="break-all text-xs text-muted-foreground">{molecule.smiles}</code>
+    </figure>
+  );
+}
+
+/** Draws 2D structural formulas from SMILES in the browser, one per molecule. */
+export function MoleculeStructures({ molecules }: MoleculeStructuresProps) {
+  const [showAllAtoms, setShowAllAtoms] = useState(false);
+
+  return (
+    <div className="flex w-full flex-col items-center gap-2">
+      <div className={molecules.length > 1 ? 'grid w-full grid-cols-2 gap-3' : 'w-full'}>
+        {molecules.map((molecule, index) => (
+          <Structure key={index} molecule={molecule} showAllAtoms={showAllAtoms} />
+        ))}
+      </div>
+      <Button type="button" variant="ghost" size="sm" onClick={() => setShowAllAtoms((show) => !show)}>
+        <Tags className="mr-2 h-4 w-4" />
+        {showAllAtoms ? 'Skeletal formula' : 'Label every atom'}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+'use client';
+
+import { useState } from 'react';
+import { CheckCircle2, ClipboardList, HelpCircle, Loader2, XCircle } from 'lucide-react';
+
+import { generateQuiz, Quiz, QuizQuestion } from '@/ai/flows/generate-quiz';
+import { HistoryEntry, historyContext, historyModelImage } from '@/lib/history';
+import { cn } from '@/lib/utils';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { useToast } from '@/hooks/use-toast';
+
+interface QuizPanelProps {
+  item: HistoryEntry;
+  quiz?: Quiz;
+  onQuizChange: (quiz: Quiz) => void;
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+/** The key terms of a short-answer question, without any that normalize to nothing and would match every answer. */
+function answerTerms(question: QuizQuestion): string[] {
+  return question.acceptableAnswers.map(normalize).filter(Boolean);
+}
+
+/** Whether an answer to `question` can be checked; short-answer questions need at least one usable key term. */
+function isScorable(question: QuizQuestion): boolean {
+  return question.kind === 'multiple-choice' || answerTerms(question).length > 0;
+}
+
+function isCorrect(question: QuizQuestion, answer: string | undefined): boolean {
+  if (!answer) return false;
+  if (question.kind === 'multiple-choice') {
+    return Number(answer) === question.correctOptionIndex;
+  }
+  const response = normalize(answer);
+  return answerTerms(question).some((term) => response.includes(term));
+}
+
+export function QuizPanel({ item, quiz, onQuizChange }: QuizPanelProps) {
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [answers, setAnswers] = useState<Record<number, string>>({});
+  const [submitted, setSubmitted] = useState(false);
+  const { toast } = useToast();
+
+  async function createQuiz() {
+    setIsGenerating(true);
+    try {
+      const result = await generateQuiz({
+        photoDataUri: historyModelImage(item),
+        domain: item.domain,
+        context: historyContext(item),
+      });
+      if (result.status !== 'success') {
+        toast({ title: 'Could not create a quiz', description: result.message, variant: 'destructive' });
+        return;
+      }
+      setAnswers({});
+      setSubmitted(false);
+      onQuizChange(result.quiz);
+    } catch (error) {
+      console.error(error);
+      toast({ title: 'An error occurred', description: 'Failed to create a quiz. Please try again.', variant: 'destructive' });
+    } finally {
+      setIsGenerating(false);
+    }
+  }
+
+  const scorable = quiz ? quiz.questions.filter(isScorable) : [];
+  const score = quiz ? quiz.questions.filter((question, index) => isScorable(question) && isCorrect(question, answers[index])).length : 0;
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <CardTitle className="font-headline text-xl flex items-center gap-2">
+          <ClipboardList className="h-5 w-5 text-primary" />
+          {quiz ? quiz.title : 'Quiz'}
+        </CardTitle>
+        <CardDescription>
+          {quiz
+            ? 'Answer every question, then check your answers.'
+            : 'Turn this visual into a quiz with multiple-choice and short-answer questions.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {quiz?.questions.map((question, index) => {
+          const answer = answers[index];
+          const scored = isScorable(question);
+          const correct = scored && isCorrect(question, answer);
+          return (
+            <div key={index} className="space-y-3">
+              <p className="font-medium">
+                {index + 1}. {question.question}
+              </p>
+              {question.kind === 'multiple-choice' ? (
+                <RadioGroup
+                  value={answer ?? ''}
+                  onValueChange={(value) => setAnswers((prev) => ({ ...prev, [index]: value }))}
+                  disabled={submitted}
+                >
+                  {question.options?.map((option, optionIndex) => (
+                    <div key={optionIndex} className="space-y-1">
+                      <div className="flex items-center gap-2">
+                        <RadioGroupItem value={String(optionIndex)} id={`q${index}-o${optionIndex}`} />
+                        <Label
+                          htmlFor={`q${index}-o${optionIndex}`}
+                          className={cn(
+                            'font-normal',
+                            submitted && optionIndex === question.correctOptionIndex && 'text-green-600 font-semibold'
+                          )}
+                        >
+                          {option.text}
+                        </Label>
+                      </div>
+                      {submitted && (optionIndex === question.correctOptionIndex || String(optionIndex) === answer) && (
+                        <p className="ml-6 text-xs text-muted-foreground">{option.rationale}</p>
+                      )}
+                    </div>
+                  ))}
+                </RadioGroup>
+              ) : (
+                <Input
+                  value={answer ?? ''}
+                  onChange={(event) => setAnswers((prev) => ({ ...prev, [index]: event.target.value }))}
+                  placeholder="Your answer"
+                  disabled={submitted}
+                />
+              )}
+              {submitted && !scored && (
+                <div className="flex items-start gap-2 text-sm text-muted-foreground">
+                  <HelpCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                  <span>Not scored; compare your answer with the model answer. {question.answerKey}</span>
+                </div>
+              )}
+              {submitted && scored && (
+                <div className={cn('flex items-start gap-2 text-sm', correct ? 'text-green-600' : 'text-destructive')}>
+                  {correct ? <CheckCircle2 className="h-4 w-4 mt-0.5 shrink-0" /> : <XCircle className="h-4 w-4 mt-0.5 shrink-0" />}
+                  <span>{question.answerKey}</span>
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        {quiz && submitted && (
+          <p className="font-semibold">
+            Score: {score} / {scorable.length}
+          </p>
+        )}
+
+        <div className="flex gap-2">
+          {quiz && !submitted && (
+            <Button type="button" onClick={() => setSubmitted(true)}>
+              Check answers
+            </Button>
+          )}
+          {quiz && submitted && (
+            <Button type="button" variant="outline" onClick={() => { setAnswers({}); setSubmitted(false); }}>
+              Retake
+            </Button>
+          )}
+          <Button type="button" variant={quiz ? 'outline' : 'default'} onClick={createQuiz} disabled={isGenerating}>
+            {isGenerating ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Writing quiz...
+              </>
+            ) : quiz ? (
+              'New quiz'
+            ) : (
+              'Create quiz'
+            )}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
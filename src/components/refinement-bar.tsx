@@ -0,0 +1,91 @@
+'use client';
+
+import { useState } from 'react';
+import { ChevronLeft, ChevronRight, Loader2, Wand2 } from 'lucide-react';
+
+import { refineEducationalVisual } from '@/ai/flows/refine-educational-visual';
+import { Refinement, VisualEntry, visualVersion } from '@/lib/history';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+
+interface RefinementBarProps {
+  entry: VisualEntry;
+  onRefined: (refinement: Refinement) => void;
+  onSelectVersion: (version: number) => void;
+}
+
+export function RefinementBar({ entry, onRefined, onSelectVersion }: RefinementBarProps) {
+  const [instruction, setInstruction] = useState('');
+  const [isRefining, setIsRefining] = useState(false);
+  const { toast } = useToast();
+
+  const versionCount = entry.refinements.length + 1;
+  const current = entry.activeVersion;
+  const currentRefinement = current > 0 ? entry.refinements[current - 1] : null;
+
+  async function refine(event: React.FormEvent) {
+    event.preventDefault();
+    const text = instruction.trim();
+    if (!text || isRefining) return;
+
+    setIsRefining(true);
+    try {
+      const result = await refineEducationalVisual({
+        image: visualVersion(entry, current).image,
+        prompt: entry.prompt,
+        domain: entry.domain,
+        instruction: text,
+      });
+      if (result.status !== 'success') {
+        toast({ title: 'Could not refine the visual', description: result.message, variant: 'destructive' });
+        return;
+      }
+      setInstruction('');
+      onRefined({ instruction: text, parentVersion: current, image: result.image, description: result.description, model: result.model });
+    } catch (error) {
+      console.error(error);
+      toast({ title: 'An error occurred', description: 'Failed to refine the visual. Please try again.', variant: 'destructive' });
+    } finally {
+      setIsRefining(false);
+    }
+  }
+
+  return (
+    <div className="w-full space-y-2">
+      {versionCount > 1 && (
+        <div className="flex items-center justify-center gap-2 text-sm">
+          <Button type="button" variant="ghost" size="icon" className="h-7 w-7" disabled={current === 0} onClick={() => onSelectVersion(current - 1)}>
+            <ChevronLeft className="h-4 w-4" />
+            <span className="sr-only">Previous version</span>
+          </Button>
+          <span className="text-muted-foreground">
+            {current === 0 ? 'Original' : `Version ${current + 1}`} of {versionCount}
+          </span>
+          <Button type="button" variant="ghost" size="icon" className="h-7 w-7" disabled={current === versionCount - 1} onClick={() => onSelectVersion(current + 1)}>
+            <ChevronRight className="h-4 w-4" />
+            <span className="sr-only">Next version</span>
+          </Button>
+        </div>
+      )}
+      {currentRefinement && (
+        <p className="text-center text-xs text-muted-foreground">
+          &quot;{currentRefinement.instruction}&quot; applied to {currentRefinement.parentVersion === 0 ? 'the original' : `version ${currentRefinement.parentVersion + 1}`}
+        </p>
+      )}
+      <form onSubmit={refine} className="flex gap-2">
+        <Input
+          value={instruction}
+          onChange={(event) => setInstruction(event.target.value)}
+          placeholder='Refine, e.g. "make the labels bigger" or "add ATP"'
+          disabled={isRefining}
+        />
+        <Button type="submit" disabled={isRefining || !instruction.trim()}>
+          {isRefining ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Wand2 className="mr-2 h-4 w-4" />}
+          Refine
+        </Button>
+      </form>
+    </div>
+  );
+}
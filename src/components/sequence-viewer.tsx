@@ -0,0 +1,76 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Image from 'next/image';
+
+import type { SequenceStage } from '@/ai/flows/generate-process-sequence';
+
+import { Button } from '@/components/ui/button';
+import {
+  Carousel, CarouselApi, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious,
+} from '@/components/ui/carousel';
+
+interface SequenceViewerProps {
+  stages: Omit<SequenceStage, 'model'>[];
+  /** Used as alt text for the frames. */
+  concept: string;
+}
+
+export function SequenceViewer({ stages, concept }: SequenceViewerProps) {
+  const [api, setApi] = useState<CarouselApi>();
+  const [current, setCurrent] = useState(0);
+
+  useEffect(() => {
+    if (!api) return;
+    const onSelect = () => setCurrent(api.selectedScrollSnap());
+    onSelect();
+    api.on('select', onSelect);
+    return () => {
+      api.off('select', onSelect);
+    };
+  }, [api]);
+
+  return (
+    <div className="flex w-full flex-col items-center gap-4">
+      <div className="flex flex-wrap justify-center gap-2">
+        {stages.map((stage, index) => (
+          <Button
+            key={index}
+            type="button"
+            size="sm"
+            variant={index === current ? 'default' : 'outline'}
+            className="h-7 rounded-full text-xs"
+            onClick={() => api?.scrollTo(index)}
+          >
+            {index + 1}. {stage.title}
+          </Button>
+        ))}
+      </div>
+      <Carousel setApi={setApi} className="w-full max-w-md mx-12">
+        <CarouselContent>
+          {stages.map((stage, index) => (
+            <CarouselItem key={index}>
+              <div className="flex flex-col items-center gap-2 text-center">
+                <Image
+                  src={stage.image}
+                  alt={`${concept}: ${stage.title}`}
+                  width={512}
+                  height={512}
+                  className="object-contain w-full rounded-md"
+                  data-ai-hint="educational visual"
+                />
+                <p className="font-semibold">{stage.title}</p>
+                <p className="text-sm text-muted-foreground">{stage.caption}</p>
+              </div>
+            </CarouselItem>
+          ))}
+        </CarouselContent>
+        <CarouselPrevious type="button" />
+        <CarouselNext type="button" />
+      </Carousel>
+      <p className="text-xs text-muted-foreground">
+        Stage {current + 1} of {stages.length}
+      </p>
+    </div>
+  );
+}
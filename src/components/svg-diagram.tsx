@@ -0,0 +1,40 @@
+'use client';
+
+import { Download } from 'lucide-react';
+
+import { cn } from '@/lib/utils';
+
+import { Button } from '@/components/ui/button';
+
+interface SvgDiagramProps {
+  /** Markup that has already been sanitized on the server. */
+  svg: string;
+  /** Used for the download file name. */
+  title: string;
+  className?: string;
+}
+
+function fileName(title: string): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || 'diagram'}.svg`;
+}
+
+/** Renders an SVG diagram inline, so its labels stay selectable text, with a download link. */
+export function SvgDiagram({ svg, title, className }: SvgDiagramProps) {
+  const href = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+
+  return (
+    <div className="flex w-full flex-col items-center gap-2">
+      <div
+        className={cn('w-full rounded-md bg-white [&>svg]:block [&>svg]:h-auto [&>svg]:w-full', className)}
+        dangerouslySetInnerHTML={{ __html: svg }}
+      />
+      <Button variant="outline" size="sm" asChild>
+        <a href={href} download={fileName(title)}>
+          <Download className="mr-2 h-4 w-4" />
+          Download SVG
+        </a>
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import assert from 'node:assert/strict';
+import {afterEach, beforeEach, describe, it} from 'node:test';
+import {isAdminAuthorization, isAdminPath} from '@/lib/admin-auth';
+
+describe('isAdminPath', () => {
+  it('matches the usage page and the cache metrics route only', () => {
+    assert.ok(isAdminPath('/usage'));
+    assert.ok(isAdminPath('/api/cache-metrics'));
+    assert.ok(!isAdminPath('/'));
+    assert.ok(!isAdminPath('/usage-guide'));
+    assert.ok(!isAdminPath('/api/explain-visual-concept'));
+  });
+});
+
+describe('isAdminAuthorization', () => {
+  beforeEach(() => {
+    process.env.EDUVIS_ADMIN_TOKEN = 'secret-token';
+  });
+  afterEach(() => {
+    delete process.env.EDUVIS_ADMIN_TOKEN;
+  });
+
+  it('accepts the token as a bearer token or a Basic password', async () => {
+    assert.ok(await isAdminAuthorization('Bearer secret-token'));
+    assert.ok(await isAdminAuthorization(`Basic ${btoa('admin:secret-token')}`));
+  });
+
+  it('rejects a wrong or missing token', async () => {
+    assert.ok(!(await isAdminAuthorization('Bearer secret')));
+    assert.ok(!(await isAdminAuthorization(`Basic ${btoa('secret-token')}`)));
+    assert.ok(!(await isAdminAuthorization(null)));
+  });
+
+  it('rejects everything when no token is configured', async () => {
+    delete process.env.EDUVIS_ADMIN_TOKEN;
+    assert.ok(!(await isAdminAuthorization('Bearer ')));
+    assert.ok(!(await isAdminAuthorization(`Basic ${btoa(':')}`)));
+  });
+});
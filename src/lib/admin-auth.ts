@@ -0,0 +1,57 @@
+/*
+ * The usage page and the cache metrics route show what every user spent, so
+ * they are only served to requests carrying `EDUVIS_ADMIN_TOKEN`, either as a
+ * bearer token or as the password of HTTP Basic credentials, which lets a
+ * browser prompt for it. Without a token they are not served at all.
+ */
+
+const adminPaths = ['/usage', '/api/cache-metrics'];
+
+/** Whether `pathname` is one of the operator-only pages or routes. */
+export function isAdminPath(pathname: string): boolean {
+  return adminPaths.some((path) => pathname === path || pathname.startsWith(`${path}/`));
+}
+
+/** Whether an admin token is configured, i.e. whether the admin paths are served. */
+export function isAdminEnabled(): boolean {
+  return !!process.env.EDUVIS_ADMIN_TOKEN;
+}
+
+function presentedToken(authorization: string | null): string | undefined {
+  const [scheme, credentials] = authorization?.trim().split(/\s+/) ?? [];
+  if (!credentials) {
+    return undefined;
+  }
+  if (scheme.toLowerCase() === 'bearer') {
+    return credentials;
+  }
+  if (scheme.toLowerCase() === 'basic') {
+    try {
+      const decoded = atob(credentials);
+      const separator = decoded.indexOf(':');
+      // The user name is ignored; the token is the password.
+      return separator === -1 ? undefined : decoded.slice(separator + 1);
+    } catch {
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+/** Compares digests rather than the strings so the time taken does not reveal how much of the token matched. */
+async function tokensMatch(presented: string, expected: string): Promise<boolean> {
+  const digest = (text: string) => crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  const [a, b] = (await Promise.all([digest(presented), digest(expected)])).map((bytes) => new Uint8Array(bytes));
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a[i] ^ b[i];
+  }
+  return difference === 0;
+}
+
+/** Whether an `Authorization` header carries the admin token. */
+export async function isAdminAuthorization(authorization: string | null): Promise<boolean> {
+  const expected = process.env.EDUVIS_ADMIN_TOKEN;
+  const presented = presentedToken(authorization);
+  return !!expected && presented !== undefined && (await tokensMatch(presented, expected));
+}
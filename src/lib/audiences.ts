@@ -0,0 +1,53 @@
+import { z } from 'zod';
+
+export interface AudienceDefinition {
+  /** Stable identifier sent to the flows and stored in history. */
+  id: string;
+  label: string;
+  /** Instructions added to the flows' prompts to pitch content at this audience. */
+  promptGuidance: string;
+}
+
+export const audiences: AudienceDefinition[] = [
+  {
+    id: 'primary',
+    label: 'Primary school',
+    promptGuidance: 'The learner is 6 to 10 years old. Use simple, friendly shapes and everyday words, show only the few most important parts, and avoid jargon.',
+  },
+  {
+    id: 'middle-school',
+    label: 'Middle school',
+    promptGuidance: 'The learner is 11 to 14 years old. Use clear labels with basic scientific terms, show the main parts and steps, and leave out advanced detail.',
+  },
+  {
+    id: 'high-school',
+    label: 'High school',
+    promptGuidance: 'The learner is 15 to 18 years old. Use standard textbook terminology and notation, and include the detail expected in a high school course.',
+  },
+  {
+    id: 'undergraduate',
+    label: 'Undergraduate',
+    promptGuidance: 'The learner is a university student. Use precise technical terminology, show mechanisms and quantitative relationships, and include the detail of a university course.',
+  },
+  {
+    id: 'expert',
+    label: 'Expert',
+    promptGuidance: 'The learner is a specialist. Be rigorous and complete, use specialist notation and terminology without simplification, and include fine detail and edge cases.',
+  },
+];
+
+export const AudienceSchema = z
+  .enum(audiences.map(audience => audience.id) as [string, ...string[]])
+  .describe('Who the content is for, which sets its vocabulary and level of detail.');
+export type Audience = z.infer<typeof AudienceSchema>;
+
+/** The audience used when a caller does not specify one. */
+export const defaultAudience: Audience = 'high-school';
+
+export function getAudience(id: Audience): AudienceDefinition {
+  const audience = audiences.find(a => a.id === id);
+  if (!audience) {
+    throw new Error(`Unknown audience: ${id}`);
+  }
+  return audience;
+}
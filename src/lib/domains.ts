@@ -0,0 +1,119 @@
+import {
+  Atom, Cog, Dna, FlaskConical, Globe, Rocket, Sigma, TerminalSquare, type LucideIcon,
+} from 'lucide-react';
+import { z } from 'zod';
+
+/** An output format that only suits some domains, offered alongside images and sequences. */
+export type DomainFormat = 'mermaid' | 'plot' | 'structure';
+
+export interface DomainDefinition {
+  /** Stable identifier sent to the flows and stored in history. */
+  id: string;
+  label: string;
+  icon: LucideIcon;
+  /** Domain-specific instructions added to the flows' prompts. */
+  promptGuidance: string;
+  /** Sample concepts offered as suggestions in the form. */
+  exampleConcepts: string[];
+  /** Extra output formats offered in the form for this domain. */
+  formats?: DomainFormat[];
+  /**
+   * Variant of the prompt files used for this domain, e.g. 'chemistry' selects
+   * prompts/<name>.chemistry.prompt wherever that file exists.
+   */
+  promptVariant?: string;
+}
+
+const builtInDomains: DomainDefinition[] = [
+  {
+    id: 'Biology',
+    label: 'Biology',
+    icon: Dna,
+    promptGuidance: 'Show anatomical and cellular structures in correct proportion, with every organelle, tissue or organ labeled.',
+    exampleConcepts: ['Photosynthesis', 'Mitosis', 'Structure of a neuron'],
+  },
+  {
+    id: 'Physics',
+    label: 'Physics',
+    icon: Atom,
+    promptGuidance: 'Draw forces, fields and motion with labeled arrows and units, and keep the physical setup realistic.',
+    exampleConcepts: ['Refraction of light through a prism', 'Newton\'s third law', 'Electromagnetic induction'],
+  },
+  {
+    id: 'Chemistry',
+    label: 'Chemistry',
+    icon: FlaskConical,
+    promptGuidance: 'Use standard chemical notation, correct bond counts and element symbols, and label reactants and products.',
+    exampleConcepts: ['Structure of benzene', 'Electrolysis of water', 'Covalent vs ionic bonding'],
+    formats: ['structure'],
+    promptVariant: 'chemistry',
+  },
+  {
+    id: 'Geography & Environment',
+    label: 'Geography & Environment',
+    icon: Globe,
+    promptGuidance: 'Use map or cross-section conventions, show the direction of flows and processes, and label landforms and layers.',
+    exampleConcepts: ['The water cycle', 'Plate tectonics', 'Layers of the atmosphere'],
+  },
+  {
+    id: 'Space Science',
+    label: 'Space Science',
+    icon: Rocket,
+    promptGuidance: 'Label celestial bodies and orbits, and state when sizes or distances are not to scale.',
+    exampleConcepts: ['Phases of the Moon', 'Life cycle of a star', 'The solar system'],
+  },
+  {
+    id: 'Engineering',
+    label: 'Engineering',
+    icon: Cog,
+    promptGuidance: 'Prefer schematic, cutaway or exploded views with labeled components and the direction of energy or material flow.',
+    exampleConcepts: ['Four-stroke engine', 'Suspension bridge forces', 'PID controller'],
+    formats: ['mermaid'],
+  },
+  {
+    id: 'Computer Science',
+    label: 'Computer Science',
+    icon: TerminalSquare,
+    promptGuidance: 'Prefer block diagrams and flowcharts with labeled components, data flow arrows and clear step ordering.',
+    exampleConcepts: ['Binary search', 'The OSI model', 'TCP three-way handshake'],
+    formats: ['mermaid'],
+  },
+  {
+    id: 'Mathematics',
+    label: 'Mathematics',
+    icon: Sigma,
+    promptGuidance: 'Use precise geometric construction, labeled axes and standard mathematical notation.',
+    exampleConcepts: ['Pythagorean theorem', 'Unit circle', 'Graph of sin(x)'],
+    formats: ['plot'],
+    promptVariant: 'mathematics',
+  },
+];
+
+/**
+ * Deployment-specific domains. Entries added here appear in the form and are
+ * accepted by every flow, for example:
+ *
+ *   { id: 'Economics', label: 'Economics', icon: LineChart,
+ *     promptGuidance: 'Label axes, curves and equilibrium points.',
+ *     exampleConcepts: ['Supply and demand'] }
+ */
+const customDomains: DomainDefinition[] = [];
+
+export const domains: DomainDefinition[] = [...builtInDomains, ...customDomains];
+
+export const DomainSchema = z
+  .enum(domains.map(domain => domain.id) as [string, ...string[]])
+  .describe('The educational or scientific domain.');
+export type Domain = z.infer<typeof DomainSchema>;
+
+export function getDomain(id: Domain): DomainDefinition {
+  const domain = domains.find(d => d.id === id);
+  if (!domain) {
+    throw new Error(`Unknown domain: ${id}`);
+  }
+  return domain;
+}
+
+export function supportsFormat(id: Domain, format: DomainFormat): boolean {
+  return getDomain(id).formats?.includes(format) ?? false;
+}
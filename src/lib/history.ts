@@ -0,0 +1,184 @@
+import { z } from 'zod';
+
+import type { DiagramLabel } from '@/ai/flows/extract-diagram-labels';
+import type { ChatMessage } from '@/ai/flows/follow-up-chat';
+import type { Quiz } from '@/ai/flows/generate-quiz';
+import { AudienceSchema } from '@/lib/audiences';
+import { DomainSchema } from '@/lib/domains';
+import { LanguageSchema } from '@/lib/languages';
+import { MoleculeSchema } from '@/lib/molecules';
+import { PlotSpecSchema } from '@/lib/plot';
+import { PromptVersionSchema } from '@/lib/prompt-version';
+import { VisualCritiqueSchema } from '@/lib/visual-critique';
+
+const RefinementSchema = z.object({
+  instruction: z.string().describe('The edit instruction that produced this version.'),
+  parentVersion: z.number().int().describe('The version this one was refined from; 0 is the original.'),
+  image: z.string().describe('The refined image as a data URI.'),
+  description: z.string().describe('The description generated with the refined image.'),
+  model: z.string().optional().describe('The model that drew the refined image. Missing on refinements made before models were recorded.'),
+});
+export type Refinement = z.infer<typeof RefinementSchema>;
+
+const VisualEntrySchema = z.object({
+  type: z.literal('visual'),
+  id: z.string(),
+  prompt: z.string().describe('The concept the visual was generated for.'),
+  domain: DomainSchema,
+  audience: AudienceSchema,
+  language: LanguageSchema,
+  image: z.string().describe('The originally generated image as a data URI.'),
+  description: z.string().describe('The description generated with the original image.'),
+  svg: z.string().optional().describe('The sanitized markup of `image` if the visual was drawn as an SVG diagram. These are not refined.'),
+  critique: VisualCritiqueSchema.optional().describe('The accuracy review of the original image, if it could be reviewed.'),
+  promptVersion: PromptVersionSchema.optional().describe('The prompt file that wrote the image prompt. Missing on entries made before prompts were versioned.'),
+  model: z.string().optional().describe('The model that drew the original image. Missing on entries made before models were recorded.'),
+  refinements: z.array(RefinementSchema).describe('Refined versions of the original, in the order they were made. Version n is refinements[n - 1].'),
+  activeVersion: z.number().int().describe('The version currently shown; 0 is the original.'),
+});
+export type VisualEntry = z.infer<typeof VisualEntrySchema>;
+
+const SequenceEntrySchema = z.object({
+  type: z.literal('sequence'),
+  id: z.string(),
+  prompt: z.string().describe('The process the sequence was generated for.'),
+  domain: DomainSchema,
+  audience: AudienceSchema,
+  language: LanguageSchema,
+  stages: z
+    .array(
+      z.object({
+        title: z.string(),
+        caption: z.string(),
+        image: z.string().describe('The stage image as a data URI.'),
+        model: z.string().optional().describe('The model that drew the stage. Missing on stages made before models were recorded.'),
+      })
+    )
+    .min(1),
+});
+
+const DiagramEntrySchema = z.object({
+  type: z.literal('diagram'),
+  id: z.string(),
+  prompt: z.string().describe('The concept the diagram was generated for.'),
+  domain: DomainSchema,
+  audience: AudienceSchema,
+  language: LanguageSchema,
+  source: z.string().describe('The Mermaid source, including any edits made by the user.'),
+  description: z.string().describe('The description generated with the diagram.'),
+});
+export type DiagramEntry = z.infer<typeof DiagramEntrySchema>;
+
+const PlotEntrySchema = z.object({
+  type: z.literal('plot'),
+  id: z.string(),
+  prompt: z.string().describe('The graph the plot was generated for.'),
+  domain: DomainSchema,
+  audience: AudienceSchema,
+  language: LanguageSchema,
+  spec: PlotSpecSchema,
+  description: z.string().describe('The description generated with the plot.'),
+});
+
+const StructureEntrySchema = z.object({
+  type: z.literal('structure'),
+  id: z.string(),
+  prompt: z.string().describe('The concept the structures were generated for.'),
+  domain: DomainSchema,
+  audience: AudienceSchema,
+  language: LanguageSchema,
+  molecules: z.array(MoleculeSchema).min(1),
+  description: z.string().describe('The description generated with the structures.'),
+});
+
+const ExplanationEntrySchema = z.object({
+  type: z.literal('explanation'),
+  id: z.string(),
+  domain: DomainSchema,
+  audience: AudienceSchema,
+  language: LanguageSchema,
+  photoDataUri: z.string().describe('The uploaded image as a data URI.'),
+  explanation: z.string().describe('The explanation generated for the uploaded image.'),
+  promptVersion: PromptVersionSchema.optional().describe('The prompt file that wrote the explanation. Missing on entries made before prompts were versioned.'),
+  model: z.string().optional().describe('The model that wrote the explanation. Missing on entries made before models were recorded.'),
+});
+
+/** The content of a history entry, as accepted by flows that work on past results. */
+export const HistoryEntrySchema = z.discriminatedUnion('type', [
+  VisualEntrySchema,
+  SequenceEntrySchema,
+  DiagramEntrySchema,
+  PlotEntrySchema,
+  StructureEntrySchema,
+  ExplanationEntrySchema,
+]);
+export type HistoryEntry = z.infer<typeof HistoryEntrySchema>;
+
+/** A history entry together with the state the UI attaches to it. */
+export type HistoryItem = HistoryEntry & {
+  thread: ChatMessage[];
+  quiz?: Quiz;
+  /** Hotspots detected for `image`, which is the version of the visual they were detected on. */
+  labels?: { image: string; labels: DiagramLabel[] };
+};
+
+/** The image and description of one version of a visual; 0 is the original. */
+export function visualVersion(entry: VisualEntry, version: number): { image: string; description: string } {
+  return version === 0 ? entry : entry.refinements[version - 1];
+}
+
+/**
+ * The image shown for a history entry. Visuals are represented by their active
+ * version and sequences by their first stage. Diagrams, plots and chemical
+ * structures are drawn in the browser and have none.
+ */
+export function historyImage(entry: HistoryEntry): string | undefined {
+  switch (entry.type) {
+    case 'visual':
+      return visualVersion(entry, entry.activeVersion).image;
+    case 'sequence':
+      return entry.stages[0].image;
+    case 'diagram':
+    case 'plot':
+    case 'structure':
+      return undefined;
+    case 'explanation':
+      return entry.photoDataUri;
+  }
+}
+
+/**
+ * The image to send to a model for a history entry. Gemini does not accept SVG
+ * input, so SVG diagrams have none; their markup is in historyContext instead.
+ */
+export function historyModelImage(entry: HistoryEntry): string | undefined {
+  return entry.type === 'visual' && entry.svg ? undefined : historyImage(entry);
+}
+
+/** The text previously shown alongside a history entry's image, or what is drawn for entries without one. */
+export function historyContext(entry: HistoryEntry): string {
+  switch (entry.type) {
+    case 'visual':
+      return entry.svg
+        ? `${entry.prompt}\n${entry.description}\nSVG source of the diagram:\n${entry.svg}`
+        : `${entry.prompt}\n${visualVersion(entry, entry.activeVersion).description}`;
+    case 'sequence':
+      return [entry.prompt, ...entry.stages.map((stage, index) => `${index + 1}. ${stage.title}: ${stage.caption}`)].join('\n');
+    case 'diagram':
+      return `${entry.prompt}\n${entry.description}\nMermaid source of the diagram:\n${entry.source}`;
+    case 'plot':
+      return [
+        entry.prompt,
+        entry.description,
+        `Plot of ${entry.spec.series.map(series => `${series.label}: y = ${series.expression}`).join('; ')} for x from ${entry.spec.xMin} to ${entry.spec.xMax}.`,
+      ].join('\n');
+    case 'structure':
+      return [
+        entry.prompt,
+        entry.description,
+        `Structures shown: ${entry.molecules.map(molecule => `${molecule.name} (SMILES ${molecule.smiles})`).join(', ')}.`,
+      ].join('\n');
+    case 'explanation':
+      return entry.explanation;
+  }
+}
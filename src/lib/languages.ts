@@ -0,0 +1,39 @@
+import { z } from 'zod';
+
+export interface LanguageDefinition {
+  /** BCP 47 code sent to the flows and stored in history. */
+  id: string;
+  /** The language's name in English, as used in prompts. */
+  label: string;
+  /** The language's name in itself, as shown in the form. */
+  nativeName: string;
+}
+
+export const languages: LanguageDefinition[] = [
+  { id: 'en', label: 'English', nativeName: 'English' },
+  { id: 'es', label: 'Spanish', nativeName: 'Español' },
+  { id: 'hi', label: 'Hindi', nativeName: 'हिन्दी' },
+  { id: 'ta', label: 'Tamil', nativeName: 'தமிழ்' },
+];
+
+export const LanguageSchema = z
+  .enum(languages.map(language => language.id) as [string, ...string[]])
+  .describe('The language of all generated text, including labels inside images.');
+export type Language = z.infer<typeof LanguageSchema>;
+
+/** The language used when a caller does not specify one. */
+export const defaultLanguage: Language = 'en';
+
+export function getLanguage(id: Language): LanguageDefinition {
+  const language = languages.find(l => l.id === id);
+  if (!language) {
+    throw new Error(`Unknown language: ${id}`);
+  }
+  return language;
+}
+
+/** How prompts name a language, e.g. "Tamil (தமிழ்)", so the model also picks the right script. */
+export function promptLanguageName(id: Language): string {
+  const language = getLanguage(id);
+  return language.label === language.nativeName ? language.label : `${language.label} (${language.nativeName})`;
+}
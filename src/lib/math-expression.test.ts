@@ -0,0 +1,49 @@
+import assert from 'node:assert/strict';
+import {describe, it} from 'node:test';
+import {ExpressionError, compileExpression, evaluateConstant} from '@/lib/math-expression';
+
+const at = (source: string, x: number) => compileExpression(source)(x);
+
+describe('compileExpression', () => {
+  it('follows the usual precedence for explicit operators', () => {
+    assert.equal(at('1 + 2*x^2', 3), 19);
+    assert.equal(at('-x^2', 3), -9);
+    assert.equal(at('2^3^2', 0), 512);
+    assert.equal(at('x**2', 4), 16);
+  });
+
+  it('binds implicit multiplication tighter than division', () => {
+    assert.equal(at('x/2x', 4), 0.5);
+    assert.equal(at('1/2pi', 0), 1 / (2 * Math.PI));
+    assert.equal(at('2x^2', 3), 18);
+    assert.equal(at('2^2x', 3), 12);
+    assert.equal(at('3sin(x)cos(x)', 0), 0);
+    assert.equal(at('(x+1)(x-1)', 3), 8);
+  });
+
+  it('rejects implicit multiplication of numbers or across whitespace', () => {
+    for (const source of ['2 3', 'x 2', '2 x', '(x)2', '1.2.3']) {
+      assert.throws(() => compileExpression(source), ExpressionError, source);
+    }
+  });
+
+  it('accepts any number of arguments to min and max', () => {
+    assert.equal(at('max(x, 1, 2)', 0), 2);
+    assert.equal(at('min(x, 1, 2, -5)', 0), -5);
+    assert.equal(at('max(x)', 7), 7);
+    assert.throws(() => compileExpression('pow(x, 2, 3)'), /pow takes 2 arguments/);
+  });
+
+  it('rejects unknown names', () => {
+    assert.throws(() => compileExpression('alert(1)'), /Unknown name "alert"/);
+    assert.throws(() => compileExpression('y + 1'), /Unknown name "y"/);
+  });
+});
+
+describe('evaluateConstant', () => {
+  it('evaluates expressions without x', () => {
+    assert.equal(evaluateConstant('-2pi'), -2 * Math.PI);
+    assert.throws(() => evaluateConstant('x'), ExpressionError);
+    assert.throws(() => evaluateConstant('1/0'), /not a finite number/);
+  });
+});
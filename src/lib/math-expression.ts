@@ -0,0 +1,247 @@
+/**
+ * A small parser for the math expressions in plot specs.
+ *
+ * Expressions are parsed into closures rather than evaluated as JavaScript, so
+ * model output can only reference `x`, the constants and the functions below.
+ */
+
+export class ExpressionError extends Error {
+  constructor(message: string, readonly expression: string) {
+    super(`${message} in "${expression}"`);
+    this.name = 'ExpressionError';
+  }
+}
+
+type Evaluator = (x: number) => number;
+
+const MAX_EXPRESSION_LENGTH = 200;
+const MAX_DEPTH = 32;
+
+const constants: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+};
+
+const functions: Record<string, (...args: number[]) => number> = {
+  sin: Math.sin, cos: Math.cos, tan: Math.tan,
+  asin: Math.asin, acos: Math.acos, atan: Math.atan,
+  sinh: Math.sinh, cosh: Math.cosh, tanh: Math.tanh,
+  sec: x => 1 / Math.cos(x), csc: x => 1 / Math.sin(x), cot: x => 1 / Math.tan(x),
+  exp: Math.exp, ln: Math.log, log: Math.log, log10: Math.log10, log2: Math.log2,
+  sqrt: Math.sqrt, cbrt: Math.cbrt, abs: Math.abs, sign: Math.sign,
+  floor: Math.floor, ceil: Math.ceil, round: Math.round,
+  pow: Math.pow,
+  // Declared without parameters so that they accept any number of arguments.
+  min: (...args) => Math.min(...args), max: (...args) => Math.max(...args),
+};
+
+const tokenPattern = /\s*(?:(\d+\.?\d*(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?)|([A-Za-z_]\w*)|(\*\*|[-+*/^(),]))/y;
+
+/** `spaced` is whether whitespace separates the token from the one before it. */
+type Token = { spaced: boolean } & (
+  | { type: 'number'; value: number }
+  | { type: 'name'; value: string }
+  | { type: 'symbol'; value: string }
+);
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  tokenPattern.lastIndex = 0;
+  while (tokenPattern.lastIndex < source.length) {
+    if (/^\s*$/.test(source.slice(tokenPattern.lastIndex))) break;
+    const start = tokenPattern.lastIndex;
+    const match = tokenPattern.exec(source);
+    if (!match) {
+      throw new ExpressionError(`Unexpected character "${source.slice(start).trim()[0]}"`, source);
+    }
+    const [token, number, name, symbol] = match;
+    const spaced = /^\s/.test(token);
+    if (number !== undefined) tokens.push({ spaced, type: 'number', value: parseFloat(number) });
+    else if (name !== undefined) tokens.push({ spaced, type: 'name', value: name.toLowerCase() });
+    else tokens.push({ spaced, type: 'symbol', value: symbol === '**' ? '^' : symbol });
+  }
+  return tokens;
+}
+
+/**
+ * A recursive-descent parser; `-x^2` is `-(x^2)` and `^` is right-associative.
+ * Implicit multiplication binds tighter than `*` and `/`, so `x/2x` is
+ * `x/(2x)`, and needs the factors written together, as in `2x` or `3sin(x)`.
+ */
+class Parser {
+  private position = 0;
+  private depth = 0;
+
+  constructor(private readonly tokens: Token[], private readonly source: string, private readonly variables: string[]) {}
+
+  parse(): Evaluator {
+    const result = this.expression();
+    if (this.position < this.tokens.length) {
+      throw this.error(`Unexpected "${this.tokens[this.position].value}"`);
+    }
+    return result;
+  }
+
+  private error(message: string) {
+    return new ExpressionError(message, this.source);
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private isSymbol(value: string): boolean {
+    const token = this.peek();
+    return token?.type === 'symbol' && token.value === value;
+  }
+
+  private expect(value: string) {
+    if (!this.isSymbol(value)) {
+      throw this.error(`Expected "${value}"`);
+    }
+    this.position++;
+  }
+
+  private expression(): Evaluator {
+    if (++this.depth > MAX_DEPTH) {
+      throw this.error('Expression is nested too deeply');
+    }
+    let left = this.term();
+    while (this.isSymbol('+') || this.isSymbol('-')) {
+      const operator = this.tokens[this.position++].value;
+      const right = this.term();
+      const l = left;
+      left = operator === '+' ? x => l(x) + right(x) : x => l(x) - right(x);
+    }
+    this.depth--;
+    return left;
+  }
+
+  private term(): Evaluator {
+    let left = this.unary();
+    while (this.isSymbol('*') || this.isSymbol('/')) {
+      const operator = this.tokens[this.position++].value;
+      const right = this.unary();
+      const l = left;
+      left = operator === '*' ? x => l(x) * right(x) : x => l(x) / right(x);
+    }
+    return left;
+  }
+
+  private unary(): Evaluator {
+    return this.signed(() => this.product());
+  }
+
+  /** Parses `operand` after any leading signs. */
+  private signed(operand: () => Evaluator): Evaluator {
+    if (this.isSymbol('-')) {
+      this.position++;
+      const value = this.signed(operand);
+      return x => -value(x);
+    }
+    if (this.isSymbol('+')) {
+      this.position++;
+      return this.signed(operand);
+    }
+    return operand();
+  }
+
+  /** Implicit multiplication, as in 2x or 3sin(x). */
+  private product(): Evaluator {
+    let left = this.power();
+    for (;;) {
+      const next = this.peek();
+      if (!next || (next.type === 'symbol' && next.value !== '(')) {
+        return left;
+      }
+      // A number can only lead a product, so `2 3` or `(x)2` are missing an operator rather than multiplying.
+      if (next.spaced || next.type === 'number') {
+        throw this.error(`Missing operator before "${next.value}"`);
+      }
+      const right = this.power();
+      const l = left;
+      left = x => l(x) * right(x);
+    }
+  }
+
+  private power(): Evaluator {
+    const base = this.primary();
+    if (this.isSymbol('^')) {
+      this.position++;
+      // The exponent does not extend over an implicit product: 2^2x is (2^2)x.
+      const exponent = this.signed(() => this.power());
+      return x => Math.pow(base(x), exponent(x));
+    }
+    return base;
+  }
+
+  private primary(): Evaluator {
+    const token = this.peek();
+    if (!token) {
+      throw this.error('Unexpected end of expression');
+    }
+    this.position++;
+
+    if (token.type === 'number') {
+      const value = token.value;
+      return () => value;
+    }
+    if (token.type === 'symbol') {
+      if (token.value !== '(') {
+        throw this.error(`Unexpected "${token.value}"`);
+      }
+      const inner = this.expression();
+      this.expect(')');
+      return inner;
+    }
+
+    const name = token.value;
+    if (Object.hasOwn(functions, name)) {
+      const fn = functions[name];
+      this.expect('(');
+      const args = [this.expression()];
+      while (this.isSymbol(',')) {
+        this.position++;
+        args.push(this.expression());
+      }
+      this.expect(')');
+      if (args.length !== (fn.length || args.length)) {
+        throw this.error(`${name} takes ${fn.length} argument${fn.length === 1 ? '' : 's'}`);
+      }
+      return x => fn(...args.map(arg => arg(x)));
+    }
+    if (Object.hasOwn(constants, name)) {
+      const value = constants[name];
+      return () => value;
+    }
+    if (this.variables.includes(name)) {
+      return x => x;
+    }
+    throw this.error(`Unknown name "${name}"`);
+  }
+}
+
+/** Compiles an expression in `x`, e.g. `2*sin(x) + x^2`. Throws an ExpressionError if it is invalid. */
+export function compileExpression(source: string): (x: number) => number {
+  return compile(source, ['x']);
+}
+
+/** Evaluates an expression without variables, e.g. `-2*pi`. Throws an ExpressionError if it is invalid. */
+export function evaluateConstant(source: string): number {
+  const value = compile(source, [])(0);
+  if (!Number.isFinite(value)) {
+    throw new ExpressionError('Value is not a finite number', source);
+  }
+  return value;
+}
+
+function compile(source: string, variables: string[]): Evaluator {
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    throw new ExpressionError('Expression is too long', source.slice(0, 40));
+  }
+  const tokens = tokenize(source);
+  if (tokens.length === 0) {
+    throw new ExpressionError('Expression is empty', source);
+  }
+  return new Parser(tokens, source, variables).parse();
+}
@@ -0,0 +1,37 @@
+import assert from 'node:assert/strict';
+import {describe, it} from 'node:test';
+import {mermaidSyntaxError} from '@/lib/mermaid-source';
+
+describe('mermaidSyntaxError', () => {
+  it('accepts well-formed diagrams of every supported type', () => {
+    const sources = [
+      'flowchart TD\n  A["Start"] --> B{"Sorted?"}\n  B -->|yes| C(["Done"])\n  B -- no --> D>"Swap"]\n  D --> A',
+      '%% comment\ngraph LR\n  subgraph loop ["Loop"]\n    A --- B\n  end',
+      'sequenceDiagram\n  participant C as Client\n  C->>S: SYN (seq = x\n  S-->>C: SYN-ACK',
+      'stateDiagram-v2\n  [*] --> Idle\n  state Running {\n    [*] --> Busy\n  }\n  Idle --> Running : start (or resume',
+      'classDiagram\n  class Animal {\n    +String name\n    +move(int meters) void\n  }\n  Animal <|-- Dog',
+      'erDiagram\n  CUSTOMER ||--o{ ORDER : places\n  ORDER {\n    int id\n  }',
+    ];
+    for (const source of sources) {
+      assert.equal(mermaidSyntaxError(source), null, source);
+    }
+  });
+
+  it('rejects a missing or unsupported header', () => {
+    assert.match(mermaidSyntaxError('A --> B') ?? '', /diagram types/);
+    assert.match(mermaidSyntaxError('pie\n  "a" : 1') ?? '', /diagram types/);
+    assert.match(mermaidSyntaxError('') ?? '', /diagram types/);
+  });
+
+  it('reports unclosed quotes and brackets with their line', () => {
+    assert.equal(mermaidSyntaxError('flowchart TD\n  A["Start] --> B'), 'Line 2: unclosed quote.');
+    assert.equal(mermaidSyntaxError('flowchart TD\n  A["Start" --> B'), 'Line 2: unclosed "[".');
+    assert.equal(mermaidSyntaxError('flowchart TD\n  A("Start"] --> B'), 'Line 2: unexpected "]".');
+    assert.equal(mermaidSyntaxError('classDiagram\n  class Animal {\n    +move() void'), 'Line 2: unclosed "{".');
+  });
+
+  it('rejects flowchart links without a target', () => {
+    assert.equal(mermaidSyntaxError('flowchart TD\n  A --> B\n  B -->'), 'Line 3: link without a target.');
+    assert.equal(mermaidSyntaxError('flowchart TD\n  A -->|next|'), 'Line 2: link without a target.');
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * A structural check of model-written Mermaid source.
+ *
+ * Mermaid's own parsers need a DOM, so the server cannot run them. This check
+ * runs without one and catches the mistakes models make most often: a missing
+ * or unsupported diagram header, unclosed quotes, unbalanced brackets and
+ * edges without a target. The client still parses the source before rendering.
+ */
+
+/** The diagram types the generation prompt asks for. */
+const diagramHeaders = ['flowchart', 'graph', 'sequenceDiagram', 'stateDiagram-v2', 'stateDiagram', 'classDiagram', 'erDiagram'];
+
+const closingBrackets: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+
+/** Flowchart links, optionally with a `|label|`, that end a line without pointing anywhere. */
+const danglingLink = /(?:--+>|==+>|-\.+->|---+|===+)\s*(?:\|[^|]*\|)?\s*$/;
+
+/** Entity relationship cardinalities such as `||--o{`, whose braces are not brackets. */
+const erCardinality = /[|}][|o](?:--|\.\.)[|o][|{]/g;
+
+function diagramType(line: string): string | undefined {
+  return diagramHeaders.find((header) => line === header || line.startsWith(`${header} `));
+}
+
+/**
+ * The part of a line whose brackets and quotes must balance. Outside
+ * flowcharts, text after a colon is a free-form message or label.
+ */
+function structuralPart(line: string, type: string): string {
+  if (type === 'flowchart' || type === 'graph') {
+    // Link labels are free text, and an asymmetric node, `id>"label"]`, opens with `>`.
+    return line.replace(/\|[^|]*\|/g, '||').replace(/(\w)>/g, '$1[');
+  }
+  const colon = line.indexOf(':');
+  const structure = colon === -1 ? line : line.slice(0, colon);
+  return type === 'erDiagram' ? structure.replace(erCardinality, '--') : structure;
+}
+
+/**
+ * Describes the first structural error in `source`, or returns null if none
+ * was found. Passing this check does not guarantee that Mermaid can parse the
+ * source.
+ */
+export function mermaidSyntaxError(source: string): string | null {
+  const lines = source.split('\n').map((line) => line.trim());
+  const headerIndex = lines.findIndex((line) => line && !line.startsWith('%%'));
+  const type = headerIndex === -1 ? undefined : diagramType(lines[headerIndex]);
+  if (!type) {
+    return `Expected one of these diagram types first: ${diagramHeaders.join(', ')}.`;
+  }
+
+  const open: { bracket: string; line: number }[] = [];
+  for (let i = headerIndex + 1; i < lines.length; i++) {
+    if (!lines[i] || lines[i].startsWith('%%')) {
+      continue;
+    }
+    const line = structuralPart(lines[i], type);
+    let quoted = false;
+    for (const char of line) {
+      if (char === '"') {
+        quoted = !quoted;
+      } else if (quoted) {
+        continue;
+      } else if (char in closingBrackets) {
+        open.push({ bracket: char, line: i + 1 });
+      } else if (Object.values(closingBrackets).includes(char)) {
+        const last = open.pop();
+        if (!last || closingBrackets[last.bracket] !== char) {
+          return `Line ${i + 1}: unexpected "${char}".`;
+        }
+      }
+    }
+    if (quoted) {
+      return `Line ${i + 1}: unclosed quote.`;
+    }
+    // Only class and state bodies, and entity attribute lists, span lines.
+    const unclosed = open.find((entry) => entry.bracket !== '{');
+    if (unclosed) {
+      return `Line ${unclosed.line}: unclosed "${unclosed.bracket}".`;
+    }
+    if ((type === 'flowchart' || type === 'graph') && danglingLink.test(line)) {
+      return `Line ${i + 1}: link without a target.`;
+    }
+  }
+  if (open.length > 0) {
+    return `Line ${open[0].line}: unclosed "${open[0].bracket}".`;
+  }
+  return null;
+}
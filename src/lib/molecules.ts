@@ -0,0 +1,100 @@
+import { z } from 'zod';
+
+export const MoleculeSchema = z.object({
+  name: z.string().describe('The common or IUPAC name, e.g. "Benzene".'),
+  smiles: z.string().describe('The structure as a SMILES string, e.g. "c1ccccc1".'),
+});
+export type Molecule = z.infer<typeof MoleculeSchema>;
+
+/** The highest normal valence of the organic-subset atoms that may be written without brackets. */
+const maxValence: Record<string, number> = { B: 3, C: 4, N: 5, O: 2, P: 5, S: 6, F: 1, Cl: 1, Br: 1, I: 1 };
+
+const bondOrders: Record<string, number> = { '-': 1, '=': 2, '#': 3, '$': 4, ':': 1.5, '/': 1, '\\': 1 };
+
+const tokenPattern = /\[[^\]]*\]|Cl|Br|[BCNOPSFI]|[bcnops]|\*|%\d\d|\d|[-=#$:/\\.()]|(.)/g;
+
+/**
+ * Checks the ring closures and the valence of unbracketed, non-aromatic atoms,
+ * which the grammar alone does not catch. Returns a reason, or null if it is fine.
+ */
+function checkStructure(smiles: string): string | null {
+  const atoms: { element: string; bonds: number; checked: boolean }[] = [];
+  const branchStack: (number | null)[] = [];
+  const openRings = new Map<string, { atom: number; bond?: string }>();
+  let previous: number | null = null;
+  let pendingBond: string | undefined;
+
+  const connect = (a: number, b: number, bond?: string) => {
+    const order = bond ? bondOrders[bond] : 1;
+    atoms[a].bonds += order;
+    atoms[b].bonds += order;
+  };
+
+  for (const [token, invalid] of smiles.matchAll(tokenPattern)) {
+    if (invalid !== undefined) {
+      return `Unexpected "${invalid}"`;
+    }
+    if (token === '(') {
+      branchStack.push(previous);
+    } else if (token === ')') {
+      previous = branchStack.pop() ?? null;
+    } else if (token === '.') {
+      previous = null;
+      pendingBond = undefined;
+    } else if (token in bondOrders) {
+      pendingBond = token;
+    } else if (/^(%\d\d|\d)$/.test(token)) {
+      if (previous === null) return 'A ring bond has no atom';
+      const label = token.replace('%', '');
+      const open = openRings.get(label);
+      if (open) {
+        if (open.atom === previous) return `Ring ${label} closes on its own atom`;
+        connect(open.atom, previous, pendingBond ?? open.bond);
+        openRings.delete(label);
+      } else {
+        openRings.set(label, { atom: previous, bond: pendingBond });
+      }
+      pendingBond = undefined;
+    } else {
+      const isBracket = token.startsWith('[');
+      const element = isBracket ? '' : token;
+      atoms.push({ element, bonds: 0, checked: !isBracket && element in maxValence });
+      const current = atoms.length - 1;
+      if (previous !== null) connect(previous, current, pendingBond);
+      previous = current;
+      pendingBond = undefined;
+    }
+  }
+
+  if (openRings.size > 0) {
+    return `Ring bond ${[...openRings.keys()].join(', ')} is never closed`;
+  }
+  const overloaded = atoms.find(atom => atom.checked && atom.bonds > maxValence[atom.element]);
+  return overloaded ? `${overloaded.element} has ${overloaded.bonds} bonds` : null;
+}
+
+let smilesDrawerLoader: Promise<typeof import('smiles-drawer').default> | null = null;
+
+/**
+ * Loads SmilesDrawer on first use, on the server for validation and in the
+ * browser for drawing. It is imported dynamically because only the package's
+ * ES module build has exports.
+ */
+export function loadSmilesDrawer() {
+  smilesDrawerLoader ??= import('smiles-drawer').then(({ default: SmilesDrawer }) => SmilesDrawer);
+  return smilesDrawerLoader;
+}
+
+/** Returns why `smiles` is not a valid structure, or null if it is. */
+export async function validateSmiles(smiles: string): Promise<string | null> {
+  if (!smiles.trim() || smiles.length > 300) {
+    return 'SMILES must be between 1 and 300 characters';
+  }
+  const SmilesDrawer = await loadSmilesDrawer();
+  let syntaxError: string | null = null;
+  // The parser reports synchronously through its callbacks.
+  SmilesDrawer.parse(smiles, () => {}, (e: any) => {
+    syntaxError = e?.message ?? String(e);
+  });
+  return syntaxError ?? checkStructure(smiles);
+}
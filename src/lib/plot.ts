@@ -0,0 +1,104 @@
+import { z } from 'zod';
+
+import { compileExpression, evaluateConstant } from '@/lib/math-expression';
+
+const ConstantSchema = z.string().describe('A number or constant expression, e.g. "-2*pi" or "1.5".');
+
+export const PlotSpecSchema = z.object({
+  title: z.string(),
+  xLabel: z.string().describe('The x-axis label, e.g. "x (radians)".'),
+  yLabel: z.string().describe('The y-axis label.'),
+  xMin: ConstantSchema,
+  xMax: ConstantSchema,
+  yMin: ConstantSchema.optional().describe('The lower y bound; omit to fit the curves.'),
+  yMax: ConstantSchema.optional().describe('The upper y bound; omit to fit the curves.'),
+  series: z
+    .array(
+      z.object({
+        expression: z.string().describe('A function of x, e.g. "sin(x)" or "2*x^2 - 3*x + 1".'),
+        label: z.string().describe('The legend label, e.g. "f(x) = sin(x)".'),
+      })
+    )
+    .min(1)
+    .max(4),
+  annotations: z
+    .array(
+      z.object({
+        x: ConstantSchema,
+        y: ConstantSchema.optional().describe('Omit to mark a vertical line, e.g. an asymptote.'),
+        label: z.string(),
+      })
+    )
+    .max(8)
+    .describe('Points or vertical lines worth pointing out, such as roots, extrema or asymptotes.'),
+});
+export type PlotSpec = z.infer<typeof PlotSpecSchema>;
+
+export interface ResolvedPlot {
+  xDomain: [number, number];
+  /** Undefined when the spec leaves the y range to fit the curves. */
+  yDomain?: [number, number];
+  series: { label: string; evaluate: (x: number) => number }[];
+  annotations: { x: number; y?: number; label: string }[];
+}
+
+/** Compiles every expression in a spec. Throws an ExpressionError or Error if any is invalid. */
+export function resolvePlot(spec: PlotSpec): ResolvedPlot {
+  const xDomain: [number, number] = [evaluateConstant(spec.xMin), evaluateConstant(spec.xMax)];
+  if (xDomain[0] >= xDomain[1]) {
+    throw new Error(`The x range ${spec.xMin} to ${spec.xMax} is empty`);
+  }
+  let yDomain: [number, number] | undefined;
+  if (spec.yMin !== undefined && spec.yMax !== undefined) {
+    yDomain = [evaluateConstant(spec.yMin), evaluateConstant(spec.yMax)];
+    if (yDomain[0] >= yDomain[1]) {
+      throw new Error(`The y range ${spec.yMin} to ${spec.yMax} is empty`);
+    }
+  }
+
+  return {
+    xDomain,
+    yDomain,
+    series: spec.series.map(series => ({ label: series.label, evaluate: compileExpression(series.expression) })),
+    annotations: spec.annotations.map(annotation => ({
+      x: evaluateConstant(annotation.x),
+      y: annotation.y === undefined ? undefined : evaluateConstant(annotation.y),
+      label: annotation.label,
+    })),
+  };
+}
+
+/** The [min, max] of the middle 90% of `values`, which ignores values near asymptotes. */
+function robustRange(values: number[]): [number, number] {
+  const sorted = [...values].sort((a, b) => a - b);
+  const low = sorted[Math.floor(sorted.length * 0.05)];
+  const high = sorted[Math.ceil(sorted.length * 0.95) - 1];
+  return low === high ? [low - 1, high + 1] : [low, high];
+}
+
+/**
+ * Samples every series at `count` evenly spaced x values. Row keys are `x` and
+ * `s0`, `s1`, ... for the series. Undefined results and values far outside the
+ * y range are null, so lines break at asymptotes instead of spiking.
+ */
+export function samplePlot(plot: ResolvedPlot, count = 400): Record<string, number | null>[] {
+  const [xMin, xMax] = plot.xDomain;
+  const xs = Array.from({ length: count }, (_, i) => xMin + ((xMax - xMin) * i) / (count - 1));
+  const columns = plot.series.map(series => xs.map(x => {
+    const y = series.evaluate(x);
+    return Number.isFinite(y) ? y : null;
+  }));
+
+  const finite = columns.flat().filter((y): y is number => y !== null);
+  const [yMin, yMax] = plot.yDomain ?? (finite.length > 0 ? robustRange(finite) : [-1, 1]);
+  const margin = yMax - yMin;
+
+  return xs.map((x, i) => {
+    const row: Record<string, number | null> = { x };
+    columns.forEach((column, s) => {
+      const y = column[i];
+      row[`s${s}`] = y !== null && y >= yMin - margin && y <= yMax + margin ? y : null;
+    });
+    return row;
+  });
+}
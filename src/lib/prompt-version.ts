@@ -0,0 +1,9 @@
+import { z } from 'zod';
+
+/** Identifies the prompt file that produced a flow's output. */
+export const PromptVersionSchema = z.object({
+  name: z.string().describe('The prompt name, which is its file name in prompts/.'),
+  variant: z.string().optional().describe('The per-domain variant used, if any.'),
+  version: z.string().describe('The `version` declared in the prompt file.'),
+});
+export type PromptVersion = z.infer<typeof PromptVersionSchema>;
@@ -0,0 +1,42 @@
+import assert from 'node:assert/strict';
+import {describe, it} from 'node:test';
+import {sanitizeSvg} from '@/lib/svg-sanitizer';
+
+const wrap = (body: string) => `<svg viewBox="0 0 10 10">${body}</svg>`;
+
+describe('sanitizeSvg', () => {
+  it('keeps presentation attributes and in-document references', () => {
+    const svg = sanitizeSvg(wrap('<path d="M0 0L5 5" stroke="#000" marker-end="url(#arrow)"/>'));
+    assert.equal(svg, '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 10 10"><path d="M0 0L5 5" stroke="#000" marker-end="url(#arrow)"/></svg>');
+  });
+
+  it('drops url() that points outside the document', () => {
+    const svg = sanitizeSvg(wrap('<rect fill="url(https://evil.example/x)" stroke="red"/>'));
+    assert.match(svg ?? '', /<rect stroke="red"\/>/);
+  });
+
+  it('drops url() hidden behind CSS escapes', () => {
+    for (const fill of ['u\\72l(https://evil.example/x)', 'u\\000072 l(https://evil.example/x)', '\\75rl(https://evil.example/x)']) {
+      const svg = sanitizeSvg(wrap(`<rect fill="${fill}"/>`));
+      assert.ok(svg);
+      assert.doesNotMatch(svg, /evil/, fill);
+    }
+  });
+
+  it('drops style and class, so the diagram cannot be laid over the page', () => {
+    const svg = sanitizeSvg(wrap('<rect style="position:fixed;width:100vw;height:100vh" class="fixed inset-0 z-50"/>'));
+    assert.ok(svg);
+    assert.doesNotMatch(svg, /fixed|100vw/);
+  });
+
+  it('drops scripts, event handlers and external links', () => {
+    const svg = sanitizeSvg(wrap('<script>alert(1)</script><rect onclick="alert(1)"/><use href="https://evil.example/#x"/>'));
+    assert.ok(svg);
+    assert.doesNotMatch(svg, /alert|evil/);
+  });
+
+  it('rejects markup that is not a single svg document', () => {
+    assert.equal(sanitizeSvg('<div></div>'), null);
+    assert.equal(sanitizeSvg(wrap('<g>')), null);
+  });
+});
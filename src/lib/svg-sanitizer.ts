@@ -0,0 +1,182 @@
+/**
+ * An allowlist-based SVG sanitizer for model-generated diagrams.
+ *
+ * The markup is tokenized and rebuilt from scratch, so only allowlisted
+ * elements and attributes survive: scripts, event handlers, external
+ * references, embedded HTML and CSS that can load resources are all dropped.
+ * There is no `style` or `class` attribute, since either could lay the
+ * diagram over the page it is rendered into.
+ * It runs without a DOM so the server can validate diagrams before they are
+ * rendered inline.
+ */
+
+const MAX_SVG_LENGTH = 200_000;
+
+const allowedElements = new Set([
+  'svg', 'g', 'defs', 'title', 'desc', 'symbol', 'use', 'marker', 'clipPath', 'mask', 'pattern',
+  'linearGradient', 'radialGradient', 'stop',
+  'rect', 'circle', 'ellipse', 'line', 'polyline', 'polygon', 'path',
+  'text', 'tspan', 'textPath',
+]);
+
+/** Elements that are removed together with everything inside them. */
+const droppedSubtrees = new Set(['script', 'style', 'foreignObject', 'iframe', 'object', 'embed', 'image', 'a', 'animate', 'set', 'animateTransform', 'animateMotion', 'handler']);
+
+const allowedAttributes = new Set([
+  'id', 'transform', 'viewBox', 'preserveAspectRatio', 'width', 'height', 'x', 'y',
+  'x1', 'y1', 'x2', 'y2', 'cx', 'cy', 'r', 'rx', 'ry', 'fx', 'fy', 'd', 'points', 'pathLength',
+  'fill', 'fill-opacity', 'fill-rule', 'stroke', 'stroke-width', 'stroke-opacity', 'stroke-dasharray',
+  'stroke-dashoffset', 'stroke-linecap', 'stroke-linejoin', 'stroke-miterlimit', 'opacity', 'color',
+  'clip-path', 'clip-rule', 'clipPathUnits', 'mask', 'maskUnits', 'maskContentUnits',
+  'marker-start', 'marker-mid', 'marker-end', 'markerWidth', 'markerHeight', 'markerUnits', 'refX', 'refY', 'orient',
+  'patternUnits', 'patternContentUnits', 'patternTransform',
+  'gradientUnits', 'gradientTransform', 'spreadMethod', 'offset', 'stop-color', 'stop-opacity',
+  'font-family', 'font-size', 'font-weight', 'font-style', 'text-anchor', 'dominant-baseline',
+  'alignment-baseline', 'baseline-shift', 'letter-spacing', 'word-spacing', 'text-decoration',
+  'dx', 'dy', 'rotate', 'textLength', 'lengthAdjust', 'startOffset',
+  'href', 'xlink:href', 'xmlns', 'version', 'role', 'aria-label', 'aria-hidden',
+]);
+
+const tokenPattern =
+  /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<![^>]*>|<\?[\s\S]*?\?>|<\/\s*([A-Za-z][\w:.-]*)\s*>|<([A-Za-z][\w:.-]*)((?:\s+[^\s=>/]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*(\/?)>|([^<]+)|(<)/g;
+
+const attributePattern = /([^\s=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (entity, code: string) => {
+    switch (code.toLowerCase()) {
+      case 'amp': return '&';
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return "'";
+    }
+    const value = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+    return value > 0 && value <= 0x10ffff ? String.fromCodePoint(value) : entity;
+  });
+}
+
+function escapeText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeAttribute(value: string): string {
+  return escapeText(value).replace(/"/g, '&quot;');
+}
+
+/** Resolves CSS escapes such as `\72` or `\r`, which CSS applies before parsing a value. */
+function decodeCssEscapes(value: string): string {
+  return value.replace(/\\(?:([0-9a-f]{1,6})\s?|([\s\S]))/gi, (_, hex: string | undefined, char: string | undefined) => {
+    if (hex === undefined) {
+      return char ?? '';
+    }
+    const code = parseInt(hex, 16);
+    return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '\ufffd';
+  });
+}
+
+function hasUnsafeCss(value: string): boolean {
+  const compact = value.replace(/[\s\u0000-\u001f]+/g, '').toLowerCase();
+  return (
+    compact.includes('javascript:') ||
+    compact.includes('data:') ||
+    compact.includes('expression(') ||
+    compact.includes('@import') ||
+    // url() may only point at elements within the document, e.g. url(#arrow).
+    /url\((?!['"]?#)/.test(compact)
+  );
+}
+
+/** Rejects values that could run script or fetch anything outside the SVG itself. */
+function isSafeValue(name: string, value: string): boolean {
+  // No allowed attribute needs a backslash, and CSS escapes can hide anything from the checks below.
+  if (value.includes('\\') || hasUnsafeCss(value) || hasUnsafeCss(decodeCssEscapes(value))) {
+    return false;
+  }
+  if (name === 'href' || name === 'xlink:href') {
+    return /^#[\w:.-]+$/.test(value.trim());
+  }
+  return true;
+}
+
+function sanitizeAttributes(source: string): string {
+  let result = '';
+  for (const match of source.matchAll(attributePattern)) {
+    const name = match[1];
+    const value = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+    if (!allowedAttributes.has(name) || !isSafeValue(name, value)) {
+      continue;
+    }
+    // Plain href works in every current browser and needs no xlink namespace declaration.
+    result += ` ${name === 'xlink:href' ? 'href' : name}="${escapeAttribute(value)}"`;
+  }
+  return result;
+}
+
+/** Strips a Markdown code fence or XML prolog the model may have wrapped the markup in. */
+function extractSvg(markup: string): string {
+  const start = markup.search(/<svg[\s>]/i);
+  const end = markup.lastIndexOf('</svg>');
+  return start === -1 || end === -1 ? '' : markup.slice(start, end + '</svg>'.length);
+}
+
+/**
+ * Returns a sanitized copy of `markup`, or `null` if it is not a single
+ * well-formed `<svg>` document.
+ */
+export function sanitizeSvg(markup: string): string | null {
+  const source = extractSvg(markup);
+  if (!source || source.length > MAX_SVG_LENGTH) {
+    return null;
+  }
+
+  const open: string[] = [];
+  let dropDepth = 0;
+  let rootClosed = false;
+  let output = '';
+
+  for (const match of source.matchAll(tokenPattern)) {
+    const [token, closingName, openingName, attributes, selfClosing, text, strayBracket] = match;
+    if (strayBracket) {
+      return null;
+    }
+    if (text !== undefined) {
+      if (rootClosed && text.trim()) return null;
+      if (dropDepth === 0) output += escapeText(decodeEntities(text));
+      continue;
+    }
+    if (closingName) {
+      if (open.pop() !== closingName) return null;
+      if (dropDepth > 0) {
+        dropDepth--;
+      } else if (allowedElements.has(closingName)) {
+        output += `</${closingName}>`;
+      }
+      if (open.length === 0) rootClosed = true;
+      continue;
+    }
+    if (openingName) {
+      if (rootClosed || (open.length === 0 && openingName !== 'svg')) return null;
+      const isSelfClosing = selfClosing === '/';
+      const dropped = dropDepth > 0 || droppedSubtrees.has(openingName) || !allowedElements.has(openingName);
+      if (!isSelfClosing) {
+        open.push(openingName);
+        if (dropped) dropDepth++;
+      }
+      if (!dropped) {
+        let attrs = sanitizeAttributes(attributes ?? '');
+        if (open.length === 1 && openingName === 'svg' && !/ xmlns="/.test(attrs)) {
+          attrs = ` xmlns="http://www.w3.org/2000/svg"${attrs}`;
+        }
+        output += `<${openingName}${attrs}${isSelfClosing ? '/>' : '>'}`;
+      }
+      continue;
+    }
+    // Comments, CDATA sections, doctypes and processing instructions are dropped.
+    if (token.startsWith('<![CDATA[') && dropDepth === 0 && open.length > 0) {
+      output += escapeText(token.slice('<![CDATA['.length, -']]>'.length));
+    }
+  }
+
+  return open.length === 0 && rootClosed ? output : null;
+}
@@ -0,0 +1,73 @@
+import { z } from 'zod';
+
+export const ModelCallSchema = z.object({
+  model: z.string(),
+  inputTokens: z.number(),
+  outputTokens: z.number(),
+  images: z.number().describe('Images the model returned.'),
+  latencyMs: z.number(),
+});
+export type ModelCall = z.infer<typeof ModelCallSchema>;
+
+/** The model calls one flow request made, and what they cost. */
+export const UsageRecordSchema = z.object({
+  id: z.string(),
+  timestamp: z.string().describe('When the request finished, as an ISO 8601 date.'),
+  flow: z.string(),
+  domain: z.string(),
+  userId: z.string().optional().describe('The anonymous user the request came from, if it came from the app.'),
+  status: z.string().describe("The flow result's status."),
+  cached: z.boolean(),
+  calls: z.array(ModelCallSchema),
+  latencyMs: z.number().describe('Wall-clock time of the whole request.'),
+  costUsd: z.number(),
+});
+export type UsageRecord = z.infer<typeof UsageRecordSchema>;
+
+interface ModelPricing {
+  inputPerMillionTokens: number;
+  outputPerMillionTokens: number;
+  perImage: number;
+}
+
+/** List prices in US dollars. Models missing here are counted as free. */
+const pricing: Record<string, ModelPricing> = {
+  'googleai/gemini-2.0-flash': { inputPerMillionTokens: 0.1, outputPerMillionTokens: 0.4, perImage: 0 },
+  'googleai/gemini-2.0-flash-lite': { inputPerMillionTokens: 0.075, outputPerMillionTokens: 0.3, perImage: 0 },
+  'googleai/gemini-2.0-flash-preview-image-generation': { inputPerMillionTokens: 0.1, outputPerMillionTokens: 0.4, perImage: 0.039 },
+  'googleai/gemini-2.5-flash-image-preview': { inputPerMillionTokens: 0.3, outputPerMillionTokens: 2.5, perImage: 0.039 },
+};
+
+export function callCost(call: ModelCall): number {
+  const price = pricing[call.model];
+  if (!price) {
+    return 0;
+  }
+  return (
+    (call.inputTokens * price.inputPerMillionTokens + call.outputTokens * price.outputPerMillionTokens) / 1_000_000 +
+    call.images * price.perImage
+  );
+}
+
+export interface CostRow {
+  key: string;
+  costUsd: number;
+  requests: number;
+}
+
+/** Sums cost and request counts by `keyOf`, in ascending key order. */
+export function costBy(records: UsageRecord[], keyOf: (record: UsageRecord) => string): CostRow[] {
+  const rows = new Map<string, CostRow>();
+  for (const record of records) {
+    const key = keyOf(record);
+    const row = rows.get(key) ?? { key, costUsd: 0, requests: 0 };
+    row.costUsd += record.costUsd;
+    row.requests += 1;
+    rows.set(key, row);
+  }
+  return [...rows.values()].sort((a, b) => a.key.localeCompare(b.key));
+}
+
+export const dayOf = (record: UsageRecord) => record.timestamp.slice(0, 10);
+
+export const formatUsd = (value: number) => `$${value < 1 ? value.toFixed(4) : value.toFixed(2)}`;
@@ -0,0 +1,49 @@
+/** The cookie holding the anonymous identifier the middleware gives each browser. */
+export const userCookieName = 'eduvis_uid';
+
+/*
+ * The cookie holds `<id>.<signature>`, an HMAC of the identifier keyed with
+ * `EDUVIS_COOKIE_SECRET`, so a client cannot make up identifiers to spread its
+ * requests over many budgets. Without a secret no cookie is issued or trusted.
+ * Web Crypto is used because the middleware runs on the edge runtime.
+ */
+
+async function signingKey(): Promise<CryptoKey | undefined> {
+  const secret = process.env.EDUVIS_COOKIE_SECRET;
+  if (!secret) {
+    return undefined;
+  }
+  return crypto.subtle.importKey('raw', new TextEncoder().encode(secret), {name: 'HMAC', hash: 'SHA-256'}, false, ['sign', 'verify']);
+}
+
+const toHex = (bytes: ArrayBuffer) => [...new Uint8Array(bytes)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+function fromHex(hex: string): Uint8Array | undefined {
+  if (!/^(?:[0-9a-f]{2})+$/.test(hex)) {
+    return undefined;
+  }
+  return new Uint8Array(hex.match(/../g)!.map(byte => parseInt(byte, 16)));
+}
+
+/** Returns a signed cookie value for a new identifier, or undefined when no secret is configured. */
+export async function issueUserCookie(): Promise<string | undefined> {
+  const key = await signingKey();
+  if (!key) {
+    return undefined;
+  }
+  const id = crypto.randomUUID();
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(id));
+  return `${id}.${toHex(signature)}`;
+}
+
+/** Returns the identifier in a cookie value if its signature is valid. */
+export async function verifyUserCookie(value: string | undefined): Promise<string | undefined> {
+  const key = await signingKey();
+  const [id, signatureHex, ...rest] = value?.split('.') ?? [];
+  const signature = signatureHex ? fromHex(signatureHex) : undefined;
+  if (!key || !id || !signature || rest.length > 0) {
+    return undefined;
+  }
+  const valid = await crypto.subtle.verify('HMAC', key, signature, new TextEncoder().encode(id));
+  return valid ? id : undefined;
+}
@@ -0,0 +1,34 @@
+import { z } from 'zod';
+
+export const CritiqueIssueSchema = z.object({
+  kind: z.enum(['label', 'structure', 'other']).describe('Whether the issue is a wrong or missing label, a wrong structure, or something else.'),
+  description: z.string().describe('What is wrong and what would be correct, in one sentence.'),
+});
+
+/** A vision model's review of one image against the concept it should show. */
+export const CritiqueReviewSchema = z.object({
+  issues: z.array(CritiqueIssueSchema).describe('Inaccuracies found in the visual; empty if none.'),
+  confidence: z.number().min(0).max(1).describe('How confident the reviewer is that the visual is accurate, from 0 to 1.'),
+});
+export type CritiqueReview = z.infer<typeof CritiqueReviewSchema>;
+
+/** The review of a generated visual; `issues` and `confidence` are those of the image shown. */
+export const VisualCritiqueSchema = CritiqueReviewSchema.extend({
+  correction: z
+    .object({
+      first: CritiqueReviewSchema.describe('The review of the first attempt, whose issues were fed back to the model.'),
+      retry: CritiqueReviewSchema.describe('The review of the regenerated attempt.'),
+      kept: z.enum(['first', 'retry']).describe('Which attempt is shown: the retry only if its review is better.'),
+    })
+    .optional()
+    .describe('Set when the visual was regenerated once to address the first review.'),
+});
+export type VisualCritique = z.infer<typeof VisualCritiqueSchema>;
+
+/** Whether `retry` is reviewed as better than `first`: no worse on issues or confidence, and better on one. */
+export function isBetterReview(retry: CritiqueReview, first: CritiqueReview): boolean {
+  const fewerOrSameIssues = retry.issues.length <= first.issues.length;
+  const sameOrHigherConfidence = retry.confidence >= first.confidence;
+  const strictlyBetter = retry.issues.length < first.issues.length || retry.confidence > first.confidence;
+  return fewerOrSameIssues && sameOrHigherConfidence && strictlyBetter;
+}
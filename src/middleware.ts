@@ -0,0 +1,42 @@
+import { NextResponse, type NextRequest } from 'next/server';
+
+import { isAdminAuthorization, isAdminEnabled, isAdminPath } from '@/lib/admin-auth';
+import { issueUserCookie, userCookieName, verifyUserCookie } from '@/lib/user-cookie';
+
+/**
+ * Restricts the admin paths to requests with the admin token, and gives each
+ * browser a signed anonymous identifier, which the rate limits charge
+ * requests to. Missing or forged identifiers are replaced.
+ */
+export async function middleware(request: NextRequest) {
+  if (isAdminPath(request.nextUrl.pathname)) {
+    if (!isAdminEnabled()) {
+      return new NextResponse(null, { status: 404 });
+    }
+    if (!(await isAdminAuthorization(request.headers.get('authorization')))) {
+      return new NextResponse('Authentication required.', {
+        status: 401,
+        headers: { 'WWW-Authenticate': 'Basic realm="EduVis admin", charset="UTF-8"' },
+      });
+    }
+  }
+
+  const response = NextResponse.next();
+  if (await verifyUserCookie(request.cookies.get(userCookieName)?.value)) {
+    return response;
+  }
+  const cookie = await issueUserCookie();
+  if (cookie) {
+    response.cookies.set(userCookieName, cookie, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: request.nextUrl.protocol === 'https:',
+      maxAge: 60 * 60 * 24 * 365,
+    });
+  }
+  return response;
+}
+
+export const config = {
+  matcher: ['/((?!_next/static|_next/image|favicon.ico).*)'],
+};